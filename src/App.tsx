@@ -1,25 +1,58 @@
 import { useState, useEffect } from 'react'
+import { Route, Routes, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { Header } from '@/components/layout/Header'
 import { Sidebar } from '@/components/layout/Sidebar'
 import { Dashboard } from '@/pages/Dashboard'
 import { Projects } from '@/pages/Projects'
 import { Documents } from '@/pages/Documents'
 import { AISearch } from '@/pages/AISearch'
-import { blink } from '@/blink/client'
-import type { User } from '@/types'
+import { DocumentViewer } from '@/pages/DocumentViewer'
+import { Trash } from '@/pages/Trash'
+import { ProjectDetail } from '@/pages/ProjectDetail'
+import { NotFound } from '@/pages/NotFound'
+import { UploadsProvider } from '@/components/documents/UploadsProvider'
+import { useData } from '@/hooks/use-data'
+import { purgeExpired } from '@/lib/trash'
+import { documentLocation, documentPath, paths } from '@/lib/routes'
+import type { DocumentLocation, User } from '@/types'
+
+function DocumentRoute() {
+  const { documentId = '' } = useParams()
+  const [params] = useSearchParams()
+  const { key } = useLocation()
+  const navigate = useNavigate()
+
+  // A shared link opens the viewer first, leaving no page to go back to
+  const goBack = () => (key === 'default' ? navigate(paths.documents) : navigate(-1))
+
+  return <DocumentViewer location={documentLocation(documentId, params)} onBack={goBack} />
+}
+
+function ProjectRoute({ onOpenDocument }: { onOpenDocument: (location: DocumentLocation) => void }) {
+  const { projectId = '' } = useParams()
+  return <ProjectDetail key={projectId} projectId={projectId} onOpenDocument={onOpenDocument} />
+}
 
 function App() {
-  const [currentPage, setCurrentPage] = useState('dashboard')
+  const navigate = useNavigate()
+  const data = useData()
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = data.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
     })
     return unsubscribe
-  }, [])
+  }, [data])
+
+  // Purge what the user trashed longer ago than their retention period
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) return
+    purgeExpired(data, userId).catch(error => console.error('Failed to purge expired trash:', error))
+  }, [data, userId])
 
   if (loading) {
     return (
@@ -42,7 +75,7 @@ function App() {
             Sign in to start organizing and searching your documents.
           </p>
           <button
-            onClick={() => blink.auth.login()}
+            onClick={() => data.auth.login()}
             className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
           >
             Sign In to Continue
@@ -52,47 +85,49 @@ function App() {
     )
   }
 
-  const renderPage = () => {
-    switch (currentPage) {
-      case 'dashboard':
-        return <Dashboard onPageChange={setCurrentPage} />
-      case 'projects':
-        return <Projects />
-      case 'documents':
-        return <Documents />
-      case 'search':
-        return <AISearch />
-      case 'team':
-        return (
-          <div className="text-center py-12">
-            <h2 className="text-xl font-semibold mb-4">Team Management</h2>
-            <p className="text-gray-600">Coming soon - Invite and manage team members</p>
-          </div>
-        )
-      case 'settings':
-        return (
-          <div className="text-center py-12">
-            <h2 className="text-xl font-semibold mb-4">Settings</h2>
-            <p className="text-gray-600">Coming soon - Manage your account settings</p>
-          </div>
-        )
-      default:
-        return <Dashboard onPageChange={setCurrentPage} />
-    }
-  }
+  const openDocument = (location: DocumentLocation) => navigate(documentPath(location))
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <Header />
-      <div className="flex h-[calc(100vh-4rem)]">
-        <Sidebar currentPage={currentPage} onPageChange={setCurrentPage} />
-        <main className="flex-1 overflow-y-auto">
-          <div className="p-6">
-            {renderPage()}
-          </div>
-        </main>
+    <UploadsProvider>
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="flex h-[calc(100vh-4rem)]">
+          <Sidebar />
+          <main className="flex-1 overflow-y-auto">
+            <div className="p-6">
+              <Routes>
+                <Route path={paths.dashboard} element={<Dashboard onOpenDocument={openDocument} />} />
+                <Route path={paths.projects} element={<Projects />} />
+                <Route path={`${paths.projects}/:projectId`} element={<ProjectRoute onOpenDocument={openDocument} />} />
+                <Route path={paths.documents} element={<Documents onOpenDocument={openDocument} />} />
+                <Route path={`${paths.documents}/:documentId`} element={<DocumentRoute />} />
+                <Route path={paths.search} element={<AISearch onOpenDocument={openDocument} />} />
+                <Route path={paths.trash} element={<Trash />} />
+                <Route
+                  path={paths.team}
+                  element={
+                    <div className="text-center py-12">
+                      <h2 className="text-xl font-semibold mb-4">Team Management</h2>
+                      <p className="text-gray-600">Coming soon - Invite and manage team members</p>
+                    </div>
+                  }
+                />
+                <Route
+                  path={paths.settings}
+                  element={
+                    <div className="text-center py-12">
+                      <h2 className="text-xl font-semibold mb-4">Settings</h2>
+                      <p className="text-gray-600">Coming soon - Manage your account settings</p>
+                    </div>
+                  }
+                />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </div>
+          </main>
+        </div>
       </div>
-    </div>
+    </UploadsProvider>
   )
 }
 
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { ArrowLeft, Download, GitCompare, RotateCcw } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { VersionDiff } from '@/components/documents/VersionDiff'
+import { useData } from '@/hooks/use-data'
+import { listVersions, restoreVersion, versionFileUrl } from '@/lib/versions'
+import { assertCanOnDocument, canOnDocument, type ProjectRole } from '@/lib/permissions'
+import type { Document, DocumentVersion, User } from '@/types'
+
+interface DocumentVersionsDialogProps {
+  document: Document | null
+  user: User | null
+  // The current user's role in the document's project
+  role: ProjectRole | null
+  onDocumentChange: (document: Document) => void
+  onOpenChange: (open: boolean) => void
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export function DocumentVersionsDialog({ document, user, role, onDocumentChange, onOpenChange }: DocumentVersionsDialogProps) {
+  const data = useData()
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState<number | null>(null)
+  // Version compared against the current one, when the diff is shown
+  const [comparing, setComparing] = useState<number | null>(null)
+
+  const canRestore = document !== null && user !== null && canOnDocument(user.id, role, 'restoreVersion', document)
+  const currentVersion = document?.version ?? 1
+
+  useEffect(() => {
+    if (!document) return
+    setVersions([])
+    setComparing(null)
+    setLoading(true)
+    listVersions(data, document)
+      .then(setVersions)
+      .catch(error => console.error('Failed to load versions:', error))
+      .finally(() => setLoading(false))
+  }, [data, document])
+
+  const downloadVersion = async (version: DocumentVersion) => {
+    try {
+      window.open(await versionFileUrl(data, version), '_blank', 'noopener')
+    } catch (error) {
+      console.error('Failed to download version:', error)
+      toast.error(errorMessage(error))
+    }
+  }
+
+  const restore = async (version: DocumentVersion) => {
+    if (!document || !user) return
+
+    setRestoring(version.version)
+    try {
+      assertCanOnDocument(user.id, role, 'restoreVersion', document)
+      const updated = await restoreVersion(data, document, version, user.id)
+      onDocumentChange(updated)
+      toast.success(`Restored version ${version.version} as version ${updated.version}`)
+    } catch (error) {
+      console.error('Failed to restore version:', error)
+      toast.error(errorMessage(error))
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  return (
+    <Dialog open={document !== null} onOpenChange={onOpenChange}>
+      <DialogContent className={comparing !== null ? 'max-w-5xl' : 'max-w-lg'}>
+        <DialogHeader>
+          <DialogTitle>{comparing !== null ? 'Compare Versions' : 'Version History'}</DialogTitle>
+          <DialogDescription>
+            {comparing !== null
+              ? `Changes to the extracted text of ${document?.name}.`
+              : `Every upload of ${document?.name} is kept. Restoring a version adds it again as the newest one.`}
+          </DialogDescription>
+        </DialogHeader>
+        {comparing !== null ? (
+          <div className="space-y-4">
+            <Button variant="ghost" size="sm" onClick={() => setComparing(null)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              All versions
+            </Button>
+            <VersionDiff key={comparing} versions={versions} from={comparing} to={currentVersion} />
+          </div>
+        ) : loading ? (
+          <div className="text-center py-6 text-gray-500">Loading versions...</div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-black">Version {version.version}</span>
+                    {version.version === currentVersion && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()} • {(version.fileSize / 1024).toFixed(1)} KB •{' '}
+                    {user && version.uploadedBy === user.id ? 'You' : 'A teammate'}
+                    {version.restoredFrom && ` • Restored from version ${version.restoredFrom}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  {version.version !== currentVersion && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Compare with current version"
+                      onClick={() => setComparing(version.version)}
+                    >
+                      <GitCompare className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" title="Download" onClick={() => downloadVersion(version)}>
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  {canRestore && version.version !== currentVersion && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Restore"
+                      onClick={() => restore(version)}
+                      disabled={restoring !== null}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
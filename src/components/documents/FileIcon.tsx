@@ -0,0 +1,25 @@
+import { File, FileImage, FileSpreadsheet, FileText, Globe, Mail, Presentation } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatOf, type FormatIcon } from '@/lib/formats/registry'
+
+const ICONS: Record<FormatIcon, { icon: typeof File; color: string }> = {
+  pdf: { icon: File, color: 'text-red-600' },
+  word: { icon: FileText, color: 'text-blue-600' },
+  text: { icon: FileText, color: 'text-gray-600' },
+  markdown: { icon: FileText, color: 'text-green-600' },
+  web: { icon: Globe, color: 'text-orange-600' },
+  spreadsheet: { icon: FileSpreadsheet, color: 'text-emerald-600' },
+  slides: { icon: Presentation, color: 'text-amber-600' },
+  email: { icon: Mail, color: 'text-purple-600' },
+  image: { icon: FileImage, color: 'text-sky-600' }
+}
+
+interface FileIconProps {
+  document: { name: string; fileType: string }
+  className?: string
+}
+
+export function FileIcon({ document, className }: FileIconProps) {
+  const { icon: Icon, color } = ICONS[formatOf(document)?.icon ?? 'text']
+  return <Icon className={cn('h-6 w-6', color, className)} />
+}
@@ -0,0 +1,33 @@
+import { Button } from '@/components/ui/button'
+import { AlertTriangle } from 'lucide-react'
+import type { SkippedEntry } from '@/lib/upload/zip'
+
+interface SkippedEntriesProps {
+  entries: SkippedEntry[]
+  onClear: () => void
+}
+
+export function SkippedEntries({ entries, onClear }: SkippedEntriesProps) {
+  if (entries.length === 0) return null
+
+  return (
+    <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center text-sm font-medium text-yellow-900">
+          <AlertTriangle className="mr-2 h-4 w-4" />
+          {entries.length} {entries.length === 1 ? 'entry was' : 'entries were'} skipped
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          Dismiss
+        </Button>
+      </div>
+      <ul className="max-h-32 overflow-y-auto space-y-1 text-xs text-yellow-900">
+        {entries.map((entry, index) => (
+          <li key={index}>
+            <span className="font-medium">{entry.archive}/{entry.path}</span>: {entry.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { FolderOpen, Upload } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { filesFromDrop, filesFromInput, type PickedFile } from '@/lib/upload/files'
+import { ACCEPTED_FILES } from '@/lib/formats/registry'
+
+const ACCEPTED_UPLOADS = `${ACCEPTED_FILES},.zip`
+
+interface UploadDropzoneProps {
+  disabled?: boolean
+  // Shown instead of the drop hint while disabled
+  disabledHint?: string
+  onFiles: (files: PickedFile[]) => void
+}
+
+export function UploadDropzone({ disabled = false, disabledHint, onFiles }: UploadDropzoneProps) {
+  const [dragging, setDragging] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setDragging(false)
+    if (disabled) return
+
+    const files = await filesFromDrop(event.dataTransfer)
+    if (files.length > 0) onFiles(files)
+  }
+
+  const handleInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = filesFromInput(event.target.files)
+    // Reset so picking the same files again fires another change event
+    event.target.value = ''
+    if (files.length > 0) onFiles(files)
+  }
+
+  return (
+    <div
+      onDragOver={(event) => {
+        event.preventDefault()
+        if (!disabled) setDragging(true)
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-6 text-center transition-colors',
+        dragging ? 'border-black bg-gray-50' : 'border-gray-300',
+        disabled && 'opacity-60'
+      )}
+    >
+      <Upload className="h-8 w-8 text-gray-400 mb-2" />
+      <p className="text-sm text-gray-600 mb-3">
+        {disabled && disabledHint ? disabledHint : 'Drag files, folders or ZIP archives here'}
+      </p>
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+          Choose Files
+        </Button>
+        <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => folderInputRef.current?.click()}>
+          <FolderOpen className="mr-2 h-4 w-4" />
+          Choose Folder
+        </Button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_UPLOADS}
+        onChange={handleInput}
+        className="hidden"
+      />
+      <input
+        ref={folderInputRef}
+        type="file"
+        // Non-standard attribute for picking a whole folder
+        {...{ webkitdirectory: '' }}
+        onChange={handleInput}
+        className="hidden"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { CheckCircle, FileText, RotateCcw, Square, X, XCircle } from 'lucide-react'
+import { isActive, type UploadItem, type UploadStatus } from '@/hooks/use-upload-queue'
+
+interface UploadQueueProps {
+  items: UploadItem[]
+  onRetry: (id: string) => void
+  onRetryFailed: () => void
+  onCancel: (id: string) => void
+  onRemove: (id: string) => void
+  onClearFinished: () => void
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Queued',
+  validate: 'Validating',
+  detectType: 'Detecting type',
+  extract: 'Extracting text',
+  normalize: 'Extracting text',
+  store: 'Uploading',
+  index: 'Indexing',
+  done: 'Done',
+  failed: 'Failed'
+}
+
+function StatusIcon({ item }: { item: UploadItem }) {
+  if (item.status === 'done') return <CheckCircle className="h-4 w-4 text-green-600" />
+  if (item.status === 'failed') return <XCircle className="h-4 w-4 text-red-600" />
+  if (isActive(item)) {
+    return <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600" />
+  }
+  return <FileText className="h-4 w-4 text-gray-400" />
+}
+
+export function UploadQueue({ items, onRetry, onRetryFailed, onCancel, onRemove, onClearFinished }: UploadQueueProps) {
+  if (items.length === 0) return null
+
+  const done = items.filter(item => item.status === 'done').length
+  const failed = items.filter(item => item.status === 'failed').length
+  const retryable = items.filter(item => item.status === 'failed' && item.retryable !== false).length
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">
+          {done} of {items.length} uploaded{failed > 0 && ` • ${failed} failed`}
+        </span>
+        <div className="flex space-x-2">
+          {retryable > 0 && (
+            <Button variant="ghost" size="sm" onClick={onRetryFailed}>
+              Retry failed
+            </Button>
+          )}
+          {done > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClearFinished}>
+              Clear finished
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {items.map(item => (
+          <div key={item.id} className="p-2 border border-gray-200 rounded-md">
+            <div className="flex items-center justify-between space-x-2">
+              <div className="flex items-center space-x-2 min-w-0">
+                <StatusIcon item={item} />
+                <span className="text-sm text-gray-900 truncate" title={item.path}>{item.path}</span>
+              </div>
+              <div className="flex items-center space-x-1 shrink-0">
+                <Badge variant={item.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {item.status === 'done' && item.result?.isNewVersion
+                    ? `Version ${item.result.document.version}`
+                    : STATUS_LABELS[item.status]}
+                </Badge>
+                {item.status === 'failed' && item.retryable !== false && (
+                  <Button variant="ghost" size="sm" title="Retry" onClick={() => onRetry(item.id)}>
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                {isActive(item) ? (
+                  <Button variant="ghost" size="sm" title="Cancel" onClick={() => onCancel(item.id)}>
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button variant="ghost" size="sm" title="Remove" onClick={() => onRemove(item.id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {(item.status === 'store' || (item.status === 'extract' && item.progress > 0)) && <Progress value={item.progress} className="h-1 mt-2" />}
+            {item.error && <p className="mt-1 text-xs text-red-600">{item.error}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react'
+import { useData } from '@/hooks/use-data'
+import { isActive, useUploadQueue } from '@/hooks/use-upload-queue'
+import { createIngestionServices } from '@/lib/ingestion/services'
+import { UploadsContext } from '@/lib/upload/context'
+import { uploadFile } from '@/lib/upload/ingest'
+import type { Document } from '@/types'
+
+/**
+ * Holds the upload queue above the routes, so uploads continue in the
+ * background while the user works on other pages.
+ */
+export function UploadsProvider({ children }: { children: React.ReactNode }) {
+  const data = useData()
+  const services = useMemo(() => createIngestionServices(data), [data])
+  const listenersRef = useRef(new Set<(document: Document) => void>())
+
+  const queue = useUploadQueue(async (item, callbacks) => {
+    const result = await uploadFile(data, services, item, item.target, callbacks)
+    listenersRef.current.forEach(listener => listener(result.document))
+    return result
+  })
+
+  const onUploaded = useCallback((listener: (document: Document) => void) => {
+    listenersRef.current.add(listener)
+    return () => {
+      listenersRef.current.delete(listener)
+    }
+  }, [])
+
+  // Closing or reloading the tab drops the queue, so ask first
+  const pending = queue.items.some(item => isActive(item) || item.status === 'queued')
+  useEffect(() => {
+    if (!pending) return
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault()
+    window.addEventListener('beforeunload', warn)
+    return () => window.removeEventListener('beforeunload', warn)
+  }, [pending])
+
+  return <UploadsContext.Provider value={{ ...queue, onUploaded }}>{children}</UploadsContext.Provider>
+}
@@ -0,0 +1,199 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowRight, ChevronDown, ChevronUp } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { diffStats, diffTexts, type DiffGranularity, type DiffPart } from '@/lib/diff'
+import type { DocumentVersion } from '@/types'
+
+type DiffMode = 'side-by-side' | 'inline'
+
+interface VersionDiffProps {
+  versions: DocumentVersion[]
+  // Version numbers to compare initially
+  from: number
+  to: number
+}
+
+// Unchanged runs longer than this are collapsed until expanded
+const COLLAPSE_AFTER = 3
+
+const PART_CLASSES: Record<DiffPart['op'], string> = {
+  equal: '',
+  insert: 'bg-green-100 text-green-900',
+  delete: 'bg-red-100 text-red-900 line-through'
+}
+
+function DiffParts({ parts }: { parts: DiffPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) => (
+        <span key={index} className={PART_CLASSES[part.op]}>
+          {part.text}
+        </span>
+      ))}
+    </>
+  )
+}
+
+function ToggleButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button variant={active ? 'secondary' : 'ghost'} size="sm" onClick={onClick}>
+      {children}
+    </Button>
+  )
+}
+
+export function VersionDiff({ versions, from: initialFrom, to: initialTo }: VersionDiffProps) {
+  const [from, setFrom] = useState(initialFrom)
+  const [to, setTo] = useState(initialTo)
+  const [granularity, setGranularity] = useState<DiffGranularity>('word')
+  const [mode, setMode] = useState<DiffMode>('side-by-side')
+  const [activeChange, setActiveChange] = useState(0)
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+
+  const oldVersion = versions.find(version => version.version === from)
+  const newVersion = versions.find(version => version.version === to)
+
+  const blocks = useMemo(
+    () => diffTexts(oldVersion?.content ?? '', newVersion?.content ?? '', granularity),
+    [oldVersion, newVersion, granularity]
+  )
+  const stats = useMemo(() => diffStats(blocks), [blocks])
+
+  // Index of each change among the change blocks, for navigation
+  const changeIndexes = useMemo(() => {
+    let count = 0
+    return blocks.map(block => (block.type === 'change' ? count++ : -1))
+  }, [blocks])
+
+  useEffect(() => {
+    setActiveChange(0)
+    setExpanded(new Set())
+  }, [blocks])
+
+  useEffect(() => {
+    document.getElementById(`diff-change-${activeChange}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [activeChange, blocks, mode])
+
+  const stepChange = (direction: 1 | -1) => {
+    if (stats.changes === 0) return
+    setActiveChange((activeChange + direction + stats.changes) % stats.changes)
+  }
+
+  const versionSelect = (value: number, onChange: (version: number) => void) => (
+    <Select value={String(value)} onValueChange={(version) => onChange(Number(version))}>
+      <SelectTrigger className="w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.id} value={String(version.version)}>
+            Version {version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          {versionSelect(from, setFrom)}
+          <ArrowRight className="h-4 w-4 text-gray-400" />
+          {versionSelect(to, setTo)}
+        </div>
+        <div className="flex items-center space-x-1">
+          <ToggleButton active={granularity === 'word'} onClick={() => setGranularity('word')}>Words</ToggleButton>
+          <ToggleButton active={granularity === 'paragraph'} onClick={() => setGranularity('paragraph')}>Paragraphs</ToggleButton>
+          <span className="mx-1 h-5 w-px bg-gray-200" />
+          <ToggleButton active={mode === 'side-by-side'} onClick={() => setMode('side-by-side')}>Side by side</ToggleButton>
+          <ToggleButton active={mode === 'inline'} onClick={() => setMode('inline')}>Inline</ToggleButton>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {stats.changes === 0
+            ? 'No differences'
+            : `${stats.changes} ${stats.changes === 1 ? 'change' : 'changes'} • ` +
+              `${stats.insertedWords} words added • ${stats.deletedWords} words removed`}
+        </span>
+        <div className="flex items-center space-x-2">
+          {stats.changes > 0 && <span>Change {activeChange + 1} of {stats.changes}</span>}
+          <Button variant="outline" size="sm" onClick={() => stepChange(-1)} disabled={stats.changes === 0}>
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => stepChange(1)} disabled={stats.changes === 0}>
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-[60vh] overflow-y-auto border border-gray-200 rounded-lg text-sm leading-relaxed">
+        {blocks.map((block, index) => {
+          if (block.type === 'equal') {
+            const collapsed = block.paragraphs.length > COLLAPSE_AFTER && !expanded.has(index)
+            const shown = collapsed
+              ? [block.paragraphs[0], block.paragraphs[block.paragraphs.length - 1]]
+              : block.paragraphs
+            const paragraphs = (
+              <div className="px-4 py-2 text-gray-700 space-y-2">
+                {shown.map((paragraph, i) => (
+                  <div key={i}>
+                    {collapsed && i === 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setExpanded(new Set(expanded).add(index))}
+                        className="block w-full py-1 mb-2 text-xs text-gray-500 bg-gray-50 hover:bg-gray-100 rounded"
+                      >
+                        Show {block.paragraphs.length - 2} unchanged paragraphs
+                      </button>
+                    )}
+                    <p className="whitespace-pre-wrap">{paragraph}</p>
+                  </div>
+                ))}
+              </div>
+            )
+            return mode === 'inline' ? (
+              <div key={index}>{paragraphs}</div>
+            ) : (
+              <div key={index} className="grid grid-cols-2 divide-x divide-gray-200">
+                {paragraphs}
+                {paragraphs}
+              </div>
+            )
+          }
+
+          const changeIndex = changeIndexes[index]
+          return (
+            <div
+              key={index}
+              id={`diff-change-${changeIndex}`}
+              className={cn(
+                'border-y border-gray-100',
+                changeIndex === activeChange && 'ring-2 ring-inset ring-blue-300'
+              )}
+            >
+              {mode === 'inline' ? (
+                <p className="px-4 py-2 whitespace-pre-wrap">
+                  <DiffParts parts={block.inline} />
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 divide-x divide-gray-200">
+                  <p className="px-4 py-2 whitespace-pre-wrap bg-red-50/40">
+                    <DiffParts parts={block.left} />
+                  </p>
+                  <p className="px-4 py-2 whitespace-pre-wrap bg-green-50/40">
+                    <DiffParts parts={block.right} />
+                  </p>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -3,21 +3,22 @@ import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { LogOut, Settings, User as UserIcon } from 'lucide-react'
-import { blink } from '@/blink/client'
+import { useData } from '@/hooks/use-data'
 import type { User } from '@/types'
 
 export function Header() {
+  const data = useData()
   const [user, setUser] = useState<User | null>(null)
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = data.auth.onAuthStateChanged((state) => {
       setUser(state.user)
     })
     return unsubscribe
-  }, [])
+  }, [data])
 
   const handleLogout = () => {
-    blink.auth.logout()
+    data.auth.logout()
   }
 
   if (!user) return null
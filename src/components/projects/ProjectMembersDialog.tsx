@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Mail, Trash2, UserPlus, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useData } from '@/hooks/use-data'
+import {
+  changeMemberRole,
+  inviteMember,
+  listProjectInvitations,
+  removeMember,
+  revokeInvitation
+} from '@/lib/members'
+import { assertCan, can, type ProjectRole } from '@/lib/permissions'
+import type { Project, ProjectInvitation, ProjectMember, User } from '@/types'
+
+interface ProjectMembersDialogProps {
+  project: Project | null
+  user: User | null
+  // The current user's role in `project`
+  role: ProjectRole | null
+  members: ProjectMember[]
+  onMembersChange: (members: ProjectMember[]) => void
+  onOpenChange: (open: boolean) => void
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export function ProjectMembersDialog({ project, user, role: userRole, members, onMembersChange, onOpenChange }: ProjectMembersDialogProps) {
+  const data = useData()
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([])
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<ProjectInvitation['role']>('member')
+  const [inviting, setInviting] = useState(false)
+
+  const projectMembers = project ? members.filter(member => member.projectId === project.id) : []
+  const canManage = can(userRole, 'manageMembers')
+
+  useEffect(() => {
+    if (!project) return
+    setEmail('')
+    setRole('member')
+    setInvitations([])
+    if (!canManage) return
+    listProjectInvitations(data, project.id)
+      .then(setInvitations)
+      .catch(error => console.error('Failed to load invitations:', error))
+  }, [data, project, canManage])
+
+  const sendInvitation = async () => {
+    if (!project || !user) return
+
+    setInviting(true)
+    try {
+      assertCan(userRole, 'manageMembers')
+      const invitation = await inviteMember(data, project, email, role, user, members)
+      setInvitations([invitation, ...invitations])
+      setEmail('')
+      toast.success(`Invitation sent to ${invitation.email}`)
+    } catch (error) {
+      console.error('Failed to invite member:', error)
+      toast.error(errorMessage(error))
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const updateRole = async (member: ProjectMember, nextRole: ProjectMember['role']) => {
+    try {
+      assertCan(userRole, 'manageMembers')
+      const updated = await changeMemberRole(data, member, nextRole)
+      onMembersChange(members.map(m => (m.id === member.id ? { ...m, ...updated } : m)))
+    } catch (error) {
+      console.error('Failed to change role:', error)
+      toast.error(errorMessage(error))
+    }
+  }
+
+  const remove = async (member: ProjectMember) => {
+    try {
+      assertCan(userRole, 'manageMembers')
+      await removeMember(data, member)
+      onMembersChange(members.filter(m => m.id !== member.id))
+    } catch (error) {
+      console.error('Failed to remove member:', error)
+      toast.error(errorMessage(error))
+    }
+  }
+
+  const revoke = async (invitation: ProjectInvitation) => {
+    try {
+      assertCan(userRole, 'manageMembers')
+      await revokeInvitation(data, invitation)
+      setInvitations(invitations.filter(i => i.id !== invitation.id))
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error)
+      toast.error(errorMessage(error))
+    }
+  }
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Project Members</DialogTitle>
+          <DialogDescription>
+            Invite people to {project?.name} and manage their roles. Members can see and search the project's team documents.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Invite */}
+          {canManage && (
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Invite by email</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="colleague@company.com"
+                />
+                <Select value={role} onValueChange={(value: ProjectInvitation['role']) => setRole(value)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="member">Member</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={sendInvitation} disabled={!email.trim() || inviting}>
+                  <UserPlus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Members */}
+          <div className="space-y-2">
+            <Label>Members</Label>
+            <div className="space-y-2">
+              {project && !projectMembers.some(member => member.userId === project.ownerId) && (
+                <div className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                  <span className="text-sm text-gray-900">
+                    {project.ownerId === user?.id ? user.email : 'Project owner'}
+                  </span>
+                  <Badge variant="secondary">Owner</Badge>
+                </div>
+              )}
+              {projectMembers.map(member => (
+                <div key={member.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                  <span className="text-sm text-gray-900 truncate">
+                    {member.email || member.userId}
+                    {member.userId === user?.id && <span className="text-gray-500"> (you)</span>}
+                  </span>
+                  {member.role === 'owner' || !canManage ? (
+                    <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <Select value={member.role} onValueChange={(value: ProjectMember['role']) => updateRole(member, value)}>
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="member">Member</SelectItem>
+                          <SelectItem value="admin">Admin</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button variant="ghost" size="sm" onClick={() => remove(member)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Pending invitations */}
+          {invitations.length > 0 && (
+            <div className="space-y-2">
+              <Label>Pending invitations</Label>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <Mail className="h-4 w-4 text-gray-500 shrink-0" />
+                    <span className="text-sm text-gray-700 truncate">{invitation.email}</span>
+                    <Badge variant="outline" className="capitalize">{invitation.role}</Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => revoke(invitation)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
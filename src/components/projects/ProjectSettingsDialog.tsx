@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Archive, ArchiveRestore, Crown } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useData } from '@/hooks/use-data'
+import { transferOwnership } from '@/lib/members'
+import { assertCan, can, type ProjectRole } from '@/lib/permissions'
+import { isArchived, setArchived, updateProject } from '@/lib/projects'
+import type { Project, ProjectMember, User } from '@/types'
+
+interface ProjectSettingsDialogProps {
+  project: Project | null
+  user: User | null
+  // The current user's role in `project`
+  role: ProjectRole | null
+  members: ProjectMember[]
+  onProjectChange: (project: Project) => void
+  onMembersChange: (members: ProjectMember[]) => void
+  onOpenChange: (open: boolean) => void
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export function ProjectSettingsDialog({
+  project,
+  user,
+  role,
+  members,
+  onProjectChange,
+  onMembersChange,
+  onOpenChange
+}: ProjectSettingsDialogProps) {
+  const data = useData()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [newOwnerId, setNewOwnerId] = useState('')
+  const [confirmingTransfer, setConfirmingTransfer] = useState(false)
+
+  useEffect(() => {
+    if (!project) return
+    setName(project.name)
+    setDescription(project.description ?? '')
+    setNewOwnerId('')
+  }, [project])
+
+  const canEdit = can(role, 'renameProject')
+  const changed = !!project && (name.trim() !== project.name || description.trim() !== (project.description ?? ''))
+  // Members who could take over: everyone with a membership but the owner
+  const candidates = project
+    ? members.filter(member => member.projectId === project.id && member.userId !== project.ownerId)
+    : []
+  const newOwner = candidates.find(member => member.id === newOwnerId)
+
+  const save = async () => {
+    if (!project) return
+
+    setSaving(true)
+    try {
+      assertCan(role, 'renameProject')
+      onProjectChange(await updateProject(data, project, { name: name.trim(), description: description.trim() }))
+      toast.success('Project settings saved')
+    } catch (error) {
+      console.error('Failed to update project:', error)
+      toast.error(errorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleArchived = async () => {
+    if (!project) return
+
+    const archive = !isArchived(project)
+    try {
+      assertCan(role, 'archiveProject')
+      onProjectChange(await setArchived(data, project, archive))
+      toast.success(archive ? `Archived ${project.name}` : `Unarchived ${project.name}`)
+    } catch (error) {
+      console.error('Failed to archive project:', error)
+      toast.error(errorMessage(error))
+    }
+  }
+
+  const transfer = async () => {
+    if (!project || !user || !newOwner) return
+
+    try {
+      assertCan(role, 'transferOwnership')
+      const result = await transferOwnership(data, project, newOwner, user, members)
+      onMembersChange(result.members)
+      onProjectChange(result.project)
+      toast.success(`${newOwner.email ?? 'The new owner'} now owns ${project.name}`)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to transfer ownership:', error)
+      toast.error(errorMessage(error))
+    } finally {
+      setConfirmingTransfer(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Project Settings</DialogTitle>
+          <DialogDescription>Rename {project?.name}, archive it or hand it over to another member.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="project-name">Project Name</Label>
+              <Input
+                id="project-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+            <div>
+              <Label htmlFor="project-description">Description</Label>
+              <Textarea
+                id="project-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Describe your project"
+                disabled={!canEdit}
+              />
+            </div>
+            {canEdit && (
+              <div className="flex justify-end">
+                <Button onClick={save} disabled={!changed || !name.trim() || saving}>
+                  Save Changes
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {project && can(role, 'archiveProject') && (
+            <>
+              <Separator />
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h4 className="text-sm font-medium text-black">
+                    {isArchived(project) ? 'This project is archived' : 'Archive project'}
+                  </h4>
+                  <p className="text-sm text-gray-500">
+                    {isArchived(project)
+                      ? 'Unarchive it to upload documents and pick it again.'
+                      : 'Archived projects take no uploads and are hidden from project pickers. Their documents can still be searched.'}
+                  </p>
+                </div>
+                <Button variant="outline" onClick={toggleArchived}>
+                  {isArchived(project) ? (
+                    <>
+                      <ArchiveRestore className="mr-2 h-4 w-4" />
+                      Unarchive
+                    </>
+                  ) : (
+                    <>
+                      <Archive className="mr-2 h-4 w-4" />
+                      Archive
+                    </>
+                  )}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {can(role, 'transferOwnership') && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <Label>Transfer ownership</Label>
+                <p className="text-sm text-gray-500">
+                  The new owner gets full control of the project. You stay on as an admin.
+                </p>
+                {candidates.length === 0 ? (
+                  <p className="text-sm text-gray-500">Invite someone to the project first.</p>
+                ) : (
+                  <div className="flex space-x-2">
+                    <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {candidates.map(member => (
+                          <SelectItem key={member.id} value={member.id}>
+                            {member.email || member.userId}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" disabled={!newOwner} onClick={() => setConfirmingTransfer(true)}>
+                      <Crown className="mr-2 h-4 w-4" />
+                      Transfer
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+
+      <AlertDialog open={confirmingTransfer} onOpenChange={setConfirmingTransfer}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer {project?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {newOwner?.email || 'This member'} will become the owner. Only they will be able to delete the
+              project or transfer it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={transfer}>Transfer Ownership</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  )
+}
@@ -0,0 +1,27 @@
+import type { HighlightRange } from '@/types'
+
+interface HighlightedTextProps {
+  text: string
+  highlights: HighlightRange[]
+  className?: string
+}
+
+export function HighlightedText({ text, highlights, className }: HighlightedTextProps) {
+  const ranges = [...highlights].sort((a, b) => a.start - b.start)
+  const parts: React.ReactNode[] = []
+
+  let cursor = 0
+  ranges.forEach((range, index) => {
+    if (range.start < cursor) return
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start))
+    parts.push(
+      <strong key={index} className="font-semibold not-italic text-black">
+        {text.slice(range.start, range.end)}
+      </strong>
+    )
+    cursor = range.end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <span className={className}>{parts}</span>
+}
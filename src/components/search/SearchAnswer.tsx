@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { FileText, Sparkles, ExternalLink } from 'lucide-react'
+import { HighlightedText } from '@/components/search/HighlightedText'
+import type { Document, DocumentLocation, SearchResult } from '@/types'
+
+interface SearchAnswerProps {
+  // Distinguishes citation anchors when several answers are on the page
+  answerId: string
+  result: SearchResult
+  documents: Document[]
+  streaming?: boolean
+  onOpenDocument: (location: DocumentLocation) => void
+}
+
+export function SearchAnswer({ answerId, result, documents, streaming = false, onOpenDocument }: SearchAnswerProps) {
+  const [activeCitation, setActiveCitation] = useState<number | null>(null)
+
+  const showCitation = (marker: number) => {
+    setActiveCitation(marker)
+    document.getElementById(`citation-${answerId}-${marker}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* AI Answer */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Sparkles className="mr-2 h-5 w-5 text-blue-600" />
+            AI Answer
+            {streaming && (
+              <span className="ml-2 text-sm font-normal text-gray-500">Generating...</span>
+            )}
+          </CardTitle>
+          {result.partial && (
+            <CardDescription>
+              Answer stopped before it was complete.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="prose prose-sm max-w-none">
+            <p className="text-gray-900 leading-relaxed whitespace-pre-wrap">
+              {result.segments.map((segment, index) =>
+                segment.type === 'text' ? (
+                  <span key={index}>{segment.text}</span>
+                ) : (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => showCitation(segment.marker)}
+                    className="mx-0.5 align-super text-xs font-medium text-blue-600 hover:underline"
+                  >
+                    [{segment.marker}]
+                  </button>
+                )
+              )}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Source Documents */}
+      {result.sources.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <FileText className="mr-2 h-5 w-5" />
+              Source Documents
+            </CardTitle>
+            <CardDescription>
+              Documents that contributed to this answer
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {result.sources.map((source, index) => {
+                const document = documents.find(doc => doc.id === source.documentId)
+                const citations = result.citations.filter(citation => citation.documentId === source.documentId)
+                return (
+                  <div key={index} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between mb-2">
+                      <div className="flex items-center space-x-2">
+                        <FileText className="h-4 w-4 text-gray-600" />
+                        <h4 className="font-medium text-black">{source.documentName}</h4>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="secondary">
+                          {Math.round(source.confidence * 100)}% match
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Open document"
+                          onClick={() => onOpenDocument({
+                            documentId: source.documentId,
+                            startOffset: citations[0]?.startOffset,
+                            endOffset: citations[0]?.endOffset
+                          })}
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">
+                      {document?.visibility === 'private' ? 'Private' : 'Team'} •
+                      {document && ` ${(document.fileSize / 1024).toFixed(1)} KB`}
+                    </p>
+                    {citations.length === 0 ? (
+                      <div className="bg-gray-50 rounded p-3">
+                        <p className="text-sm text-gray-700 italic">
+                          "<HighlightedText text={source.relevantText} highlights={source.highlights} />"
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {citations.map(citation => (
+                          <div
+                            key={citation.marker}
+                            id={`citation-${answerId}-${citation.marker}`}
+                            className={`rounded p-3 ${activeCitation === citation.marker ? 'bg-blue-50 ring-1 ring-blue-200' : 'bg-gray-50'}`}
+                          >
+                            <p className="text-sm text-gray-700 italic">
+                              <span className="not-italic font-medium text-blue-600 mr-1">[{citation.marker}]</span>
+                              "<HighlightedText text={citation.relevantText} highlights={citation.highlights} />"
+                            </p>
+                            <button
+                              type="button"
+                              onClick={() => onOpenDocument({
+                                documentId: citation.documentId,
+                                startOffset: citation.startOffset,
+                                endOffset: citation.endOffset
+                              })}
+                              className="mt-1 text-xs text-blue-600 hover:underline"
+                            >
+                              Open at this passage
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
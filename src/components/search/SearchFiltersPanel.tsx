@@ -0,0 +1,148 @@
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { EMPTY_FILTERS, countActiveFilters, fileTypeLabel, type SearchFilters } from '@/lib/search/filters'
+import { isArchived } from '@/lib/projects'
+import type { Document, Project } from '@/types'
+
+interface SearchFiltersPanelProps {
+  filters: SearchFilters
+  onChange: (filters: SearchFilters) => void
+  documents: Document[]
+  projects: Project[]
+  currentUserId?: string
+}
+
+function toggle(values: string[], value: string, checked: boolean) {
+  return checked ? [...values, value] : values.filter(v => v !== value)
+}
+
+function CheckboxList({ options, selected, onToggle }: {
+  options: { value: string; label: string }[]
+  selected: string[]
+  onToggle: (value: string, checked: boolean) => void
+}) {
+  if (options.length === 0) {
+    return <p className="text-sm text-gray-500">None available</p>
+  }
+
+  return (
+    <div className="space-y-2 max-h-40 overflow-y-auto">
+      {options.map(option => (
+        <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+          <Checkbox
+            checked={selected.includes(option.value)}
+            onCheckedChange={(checked) => onToggle(option.value, checked === true)}
+          />
+          <span className="truncate">{option.label}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export function SearchFiltersPanel({ filters, onChange, documents, projects, currentUserId }: SearchFiltersPanelProps) {
+  const fileTypes = [...new Set(documents.map(doc => doc.fileType).filter(Boolean))]
+  const uploaders = [...new Set(documents.map(doc => doc.uploadedBy))]
+  // Archived projects are only offered once asked for, or while picked
+  const pickableProjects = projects.filter(project =>
+    filters.includeArchived || !isArchived(project) || filters.projectIds.includes(project.id)
+  )
+  const hasArchived = projects.some(isArchived)
+
+  return (
+    <div className="space-y-4 border border-gray-200 rounded-lg p-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          <Label>Projects</Label>
+          <CheckboxList
+            options={pickableProjects.map(project => ({
+              value: project.id,
+              label: isArchived(project) ? `${project.name} (archived)` : project.name
+            }))}
+            selected={filters.projectIds}
+            onToggle={(value, checked) => onChange({ ...filters, projectIds: toggle(filters.projectIds, value, checked) })}
+          />
+          {hasArchived && (
+            <label className="flex items-center space-x-2 text-sm text-gray-500 cursor-pointer pt-1">
+              <Checkbox
+                checked={filters.includeArchived}
+                onCheckedChange={(checked) => onChange({ ...filters, includeArchived: checked === true })}
+              />
+              <span>Include archived projects</span>
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>File types</Label>
+          <CheckboxList
+            options={fileTypes.map(type => ({ value: type, label: fileTypeLabel(type) }))}
+            selected={filters.fileTypes}
+            onToggle={(value, checked) => onChange({ ...filters, fileTypes: toggle(filters.fileTypes, value, checked) })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Uploaded by</Label>
+          <CheckboxList
+            options={uploaders.map(id => ({ value: id, label: id === currentUserId ? 'You' : id }))}
+            selected={filters.uploaderIds}
+            onToggle={(value, checked) => onChange({ ...filters, uploaderIds: toggle(filters.uploaderIds, value, checked) })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          <Label>Visibility</Label>
+          <Select
+            value={filters.visibility}
+            onValueChange={(value: 'all' | 'private' | 'team') => onChange({ ...filters, visibility: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Documents</SelectItem>
+              <SelectItem value="private">Private Only</SelectItem>
+              <SelectItem value="team">Team Only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="created-from">Uploaded from</Label>
+          <Input
+            id="created-from"
+            type="date"
+            value={filters.createdFrom ?? ''}
+            max={filters.createdTo}
+            onChange={(e) => onChange({ ...filters, createdFrom: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="created-to">Uploaded to</Label>
+          <Input
+            id="created-to"
+            type="date"
+            value={filters.createdTo ?? ''}
+            min={filters.createdFrom}
+            onChange={(e) => onChange({ ...filters, createdTo: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      {countActiveFilters(filters) > 0 && (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_FILTERS)}>
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
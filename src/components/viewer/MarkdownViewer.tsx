@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { marked } from 'marked'
+import DOMPurify from 'dompurify'
+import { clearMarks, markText } from '@/lib/viewer/dom'
+import { passageAnchor, type FindProps } from '@/lib/viewer/find'
+
+interface MarkdownViewerProps extends FindProps {
+  source: string
+  // Text of the passage to scroll to
+  passageText?: string
+}
+
+export function MarkdownViewer({ source, passageText, findTerm, activeMatch, onMatchCount }: MarkdownViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const matchesRef = useRef<HTMLElement[]>([])
+
+  const html = useMemo(
+    () => DOMPurify.sanitize(marked.parse(source, { async: false, gfm: true })),
+    [source]
+  )
+
+  // Re-mark the rendered HTML whenever the content or the search changes
+  useEffect(() => {
+    const root = containerRef.current
+    if (!root) return
+
+    clearMarks(root)
+    const [passageMark] = passageText
+      ? markText(root, passageAnchor(passageText), 'bg-blue-50 ring-1 ring-blue-200 rounded-sm', 1)
+      : []
+    matchesRef.current = markText(root, findTerm, 'bg-yellow-200')
+    onMatchCount(matchesRef.current.length)
+
+    if (passageMark && !findTerm.trim()) {
+      passageMark.scrollIntoView({ block: 'center' })
+    }
+  }, [html, findTerm, passageText, onMatchCount])
+
+  useEffect(() => {
+    matchesRef.current.forEach((mark, index) => {
+      mark.classList.toggle('bg-orange-300', index === activeMatch)
+      mark.classList.toggle('bg-yellow-200', index !== activeMatch)
+    })
+    matchesRef.current[activeMatch]?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [activeMatch, html, findTerm])
+
+  return (
+    <div
+      ref={containerRef}
+      className="prose prose-sm max-w-none text-gray-900"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  )
+}
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from 'react'
+import { getDocument, TextLayer, type PDFDocumentProxy, type RenderTask } from '@/lib/pdfjs'
+import { Button } from '@/components/ui/button'
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react'
+import { clearMarks, markText } from '@/lib/viewer/dom'
+import { findMatches, normalizeWhitespace, passageAnchor, type FindProps } from '@/lib/viewer/find'
+
+interface PdfViewerProps extends FindProps {
+  url: string
+  // Text of the passage to jump to
+  passageText?: string
+  // Page the passage was extracted from, used when its text cannot be found
+  // on any page, as on scanned pages read with OCR
+  passagePage?: number
+}
+
+interface PageMatch {
+  pageNumber: number
+  indexOnPage: number
+}
+
+const MIN_SCALE = 0.5
+const MAX_SCALE = 3
+
+// The text layer sits over the page, so marks tint the canvas text rather
+// than cover it
+const MATCH_COLOR = 'bg-yellow-300/50'
+const ACTIVE_MATCH_COLOR = 'bg-orange-400/60'
+
+export function PdfViewer({ url, passageText, passagePage, findTerm, activeMatch, onMatchCount }: PdfViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const textLayerRef = useRef<HTMLDivElement>(null)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [pageTexts, setPageTexts] = useState<string[]>([])
+  const [pageNumber, setPageNumber] = useState(1)
+  const [scale, setScale] = useState(1.25)
+  const [error, setError] = useState<string | null>(null)
+  const [matches, setMatches] = useState<PageMatch[]>([])
+  // Bumped each time a page's text layer is ready to be marked
+  const [textLayerVersion, setTextLayerVersion] = useState(0)
+
+  // Load the document and the text of every page for find
+  useEffect(() => {
+    let cancelled = false
+    const task = getDocument(url)
+    setPdf(null)
+    setError(null)
+
+    task.promise
+      .then(async loaded => {
+        if (cancelled) return
+        setPdf(loaded)
+        setPageNumber(1)
+
+        const texts: string[] = []
+        for (let i = 1; i <= loaded.numPages; i++) {
+          const page = await loaded.getPage(i)
+          const content = await page.getTextContent()
+          texts.push(normalizeWhitespace(content.items.map(item => ('str' in item ? item.str : '')).join(' ')))
+          if (cancelled) return
+        }
+        setPageTexts(texts)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error('Failed to load PDF:', error)
+        setError('This PDF could not be displayed.')
+      })
+
+    return () => {
+      cancelled = true
+      task.destroy()
+    }
+  }, [url])
+
+  // Render the current page, with its text laid out on top for find
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return
+    let renderTask: RenderTask | null = null
+    let textLayer: TextLayer | null = null
+    let cancelled = false
+
+    pdf.getPage(pageNumber).then(page => {
+      const canvas = canvasRef.current
+      const textLayerDiv = textLayerRef.current
+      if (cancelled || !canvas || !textLayerDiv) return
+
+      const viewport = page.getViewport({ scale })
+      const outputScale = window.devicePixelRatio || 1
+      canvas.width = Math.floor(viewport.width * outputScale)
+      canvas.height = Math.floor(viewport.height * outputScale)
+      canvas.style.width = `${Math.floor(viewport.width)}px`
+      canvas.style.height = `${Math.floor(viewport.height)}px`
+
+      renderTask = page.render({
+        canvas,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      })
+      renderTask.promise.catch(error => {
+        if (error?.name !== 'RenderingCancelledException') console.error('Failed to render page:', error)
+      })
+
+      textLayerDiv.replaceChildren()
+      textLayerDiv.style.setProperty('--total-scale-factor', String(viewport.scale))
+      textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container: textLayerDiv, viewport })
+      textLayer.render()
+        .then(() => {
+          if (!cancelled) setTextLayerVersion(version => version + 1)
+        })
+        .catch(error => {
+          if (error?.name !== 'AbortException') console.error('Failed to lay out page text:', error)
+        })
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+      textLayer?.cancel()
+    }
+  }, [pdf, pageNumber, scale])
+
+  // Collect matches across pages; the viewer shows the page of the active one
+  useEffect(() => {
+    const found: PageMatch[] = []
+    pageTexts.forEach((text, index) => {
+      findMatches(text, findTerm).forEach((_, indexOnPage) => {
+        found.push({ pageNumber: index + 1, indexOnPage })
+      })
+    })
+    setMatches(found)
+    onMatchCount(found.length)
+  }, [pageTexts, findTerm, onMatchCount])
+
+  useEffect(() => {
+    const match = matches[activeMatch]
+    if (match) setPageNumber(match.pageNumber)
+  }, [matches, activeMatch])
+
+  // Mark the matches on the current page. Matches are counted in the page
+  // text, so the active one is the same-numbered mark on its page; a match
+  // split across text runs has no mark of its own.
+  useEffect(() => {
+    const root = textLayerRef.current
+    if (!root) return
+
+    clearMarks(root)
+    const marks = markText(root, findTerm, `text-transparent rounded-sm ${MATCH_COLOR}`)
+    const match = matches[activeMatch]
+    const active = match?.pageNumber === pageNumber ? marks[match.indexOnPage] : undefined
+    if (active) {
+      active.classList.replace(MATCH_COLOR, ACTIVE_MATCH_COLOR)
+      active.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [textLayerVersion, findTerm, matches, activeMatch, pageNumber])
+
+  // Jump to the first page that contains the opening words of the passage
+  useEffect(() => {
+    if (!passageText || pageTexts.length === 0) return
+    const anchor = passageAnchor(passageText).toLowerCase()
+    const index = pageTexts.findIndex(text => text.toLowerCase().includes(anchor))
+    if (index !== -1) setPageNumber(index + 1)
+    else if (passagePage && passagePage <= pageTexts.length) setPageNumber(passagePage)
+  }, [passageText, passagePage, pageTexts])
+
+  if (error) {
+    return <div className="text-center py-12 text-gray-500">{error}</div>
+  }
+
+  if (!pdf) {
+    return <div className="text-center py-12 text-gray-500">Loading PDF...</div>
+  }
+
+  const matchesOnPage = matches.filter(match => match.pageNumber === pageNumber).length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setPageNumber(pageNumber - 1)} disabled={pageNumber <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-600">
+            Page {pageNumber} of {pdf.numPages}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPageNumber(pageNumber + 1)} disabled={pageNumber >= pdf.numPages}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {findTerm.trim() && (
+            <span className="text-sm text-gray-500">
+              {matchesOnPage} {matchesOnPage === 1 ? 'match' : 'matches'} on this page
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setScale(Math.max(MIN_SCALE, scale - 0.25))}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-600 w-12 text-center">{Math.round(scale * 100)}%</span>
+          <Button variant="outline" size="sm" onClick={() => setScale(Math.min(MAX_SCALE, scale + 0.25))}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="overflow-auto bg-gray-100 rounded-lg p-4 flex justify-center">
+        <div className="relative shadow-md bg-white">
+          <canvas ref={canvasRef} className="block" />
+          <div ref={textLayerRef} className="pdf-text-layer" />
+        </div>
+      </div>
+    </div>
+  )
+}
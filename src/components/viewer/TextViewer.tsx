@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { findMatches, type FindProps } from '@/lib/viewer/find'
+import type { HighlightRange } from '@/types'
+
+interface TextViewerProps extends FindProps {
+  text: string
+  // Offsets of the passage to scroll to and tint
+  passage?: HighlightRange
+}
+
+function renderMatches(text: string, offset: number, matches: HighlightRange[], firstIndex: number, activeMatch: number) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  matches.forEach((match, i) => {
+    const index = firstIndex + i
+    parts.push(text.slice(cursor, match.start - offset))
+    parts.push(
+      <mark
+        key={index}
+        data-match={index}
+        className={index === activeMatch ? 'bg-orange-300' : 'bg-yellow-200'}
+      >
+        {text.slice(match.start - offset, match.end - offset)}
+      </mark>
+    )
+    cursor = match.end - offset
+  })
+  parts.push(text.slice(cursor))
+  return parts
+}
+
+export function TextViewer({ text, passage, findTerm, activeMatch, onMatchCount }: TextViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const passageRef = useRef<HTMLSpanElement>(null)
+
+  const matches = useMemo(() => findMatches(text, findTerm), [text, findTerm])
+
+  useEffect(() => {
+    onMatchCount(matches.length)
+  }, [matches, onMatchCount])
+
+  useEffect(() => {
+    passageRef.current?.scrollIntoView({ block: 'center' })
+  }, [passage?.start, passage?.end])
+
+  useEffect(() => {
+    containerRef.current
+      ?.querySelector(`[data-match="${activeMatch}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [activeMatch, matches])
+
+  // Split the text around the passage; matches that straddle its edges are
+  // dropped rather than drawn half inside
+  const start = passage ? Math.max(0, Math.min(passage.start, text.length)) : text.length
+  const end = passage ? Math.max(start, Math.min(passage.end, text.length)) : text.length
+  const regions = [
+    { from: 0, to: start },
+    { from: start, to: end },
+    { from: end, to: text.length }
+  ]
+
+  const rendered = regions.map(region => {
+    const inRegion = matches.filter(match => match.start >= region.from && match.end <= region.to)
+    const firstIndex = inRegion.length > 0 ? matches.indexOf(inRegion[0]) : 0
+    return renderMatches(text.slice(region.from, region.to), region.from, inRegion, firstIndex, activeMatch)
+  })
+
+  return (
+    <div
+      ref={containerRef}
+      className="font-mono text-sm text-gray-900 leading-relaxed whitespace-pre-wrap break-words"
+    >
+      {rendered[0]}
+      {passage && (
+        <span ref={passageRef} className="bg-blue-50 ring-1 ring-blue-200 rounded-sm">
+          {rendered[1]}
+        </span>
+      )}
+      {rendered[2]}
+    </div>
+  )
+}
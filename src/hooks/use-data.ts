@@ -0,0 +1,11 @@
+import { useContext } from 'react'
+import { DataContext } from '@/lib/data/context'
+
+/**
+ * The backend the app was started with, as provided in `main.tsx`.
+ */
+export function useData() {
+  const data = useContext(DataContext)
+  if (!data) throw new Error('useData must be used inside a DataContext provider')
+  return data
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { PickedFile } from '@/lib/upload/files'
+import { isRetryable } from '@/lib/ingestion/errors'
+import { isCancelled } from '@/lib/workers/pool'
+import type { IngestionCallbacks, IngestionResult, IngestionStageName, IngestionTarget } from '@/lib/ingestion/types'
+
+export type UploadStatus = 'queued' | IngestionStageName | 'done' | 'failed'
+
+export interface UploadItem {
+  id: string
+  file: File
+  path: string
+  target: IngestionTarget
+  status: UploadStatus
+  // Progress of the current stage in percent, reported while extracting
+  // (OCR) and storing
+  progress: number
+  error?: string
+  // False when the file itself was rejected and retrying cannot help
+  retryable?: boolean
+  result?: IngestionResult
+}
+
+export type UploadProcessor = (item: UploadItem, callbacks: IngestionCallbacks) => Promise<IngestionResult>
+
+export const MAX_CONCURRENT_UPLOADS = 3
+
+const ACTIVE_STATUSES: UploadStatus[] = ['validate', 'detectType', 'extract', 'normalize', 'store', 'index']
+
+export function isActive(item: UploadItem) {
+  return ACTIVE_STATUSES.includes(item.status)
+}
+
+let nextId = 0
+
+/**
+ * A queue of files processed at most `concurrency` at a time. Failed items
+ * stay in the queue with their error until retried or removed.
+ */
+export function useUploadQueue(process: UploadProcessor, concurrency = MAX_CONCURRENT_UPLOADS) {
+  const [items, setItems] = useState<UploadItem[]>([])
+  // Items already handed to `process`, so re-running effects never starts
+  // an item twice
+  const startedRef = useRef(new Set<string>())
+  const controllersRef = useRef(new Map<string, AbortController>())
+  const processRef = useRef(process)
+  processRef.current = process
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }, [])
+
+  const start = useCallback(async (item: UploadItem) => {
+    startedRef.current.add(item.id)
+    const controller = new AbortController()
+    controllersRef.current.set(item.id, controller)
+    updateItem(item.id, { status: 'validate', progress: 0, error: undefined })
+
+    try {
+      const result = await processRef.current(item, {
+        onStage: stage => updateItem(item.id, { status: stage, progress: 0 }),
+        onProgress: progress => updateItem(item.id, { progress }),
+        signal: controller.signal
+      })
+      updateItem(item.id, { status: 'done', progress: 100, result })
+    } catch (error) {
+      if (isCancelled(error)) {
+        updateItem(item.id, { status: 'failed', error: 'Cancelled', retryable: true })
+        return
+      }
+      console.error(`Failed to upload ${item.path}:`, error)
+      updateItem(item.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: isRetryable(error)
+      })
+    } finally {
+      controllersRef.current.delete(item.id)
+    }
+  }, [updateItem])
+
+  useEffect(() => {
+    const active = items.filter(item => isActive(item) || (item.status === 'queued' && startedRef.current.has(item.id)))
+    const waiting = items.filter(item => item.status === 'queued' && !startedRef.current.has(item.id))
+    waiting.slice(0, Math.max(0, concurrency - active.length)).forEach(start)
+  }, [items, concurrency, start])
+
+  const enqueue = useCallback((files: PickedFile[], target: IngestionTarget) => {
+    const added = files.map(({ file, path }): UploadItem => ({
+      id: `upload_${++nextId}`,
+      file,
+      path,
+      target,
+      status: 'queued',
+      progress: 0
+    }))
+    setItems(current => [...current, ...added])
+  }, [])
+
+  const retry = useCallback((id: string) => {
+    startedRef.current.delete(id)
+    updateItem(id, { status: 'queued', progress: 0, error: undefined })
+  }, [updateItem])
+
+  const retryFailed = useCallback(() => {
+    setItems(current => current.map(item => {
+      if (item.status !== 'failed' || item.retryable === false) return item
+      startedRef.current.delete(item.id)
+      return { ...item, status: 'queued', progress: 0, error: undefined }
+    }))
+  }, [])
+
+  // Stop an item being processed; it stays in the queue as failed
+  const cancel = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort()
+  }, [])
+
+  // Drop an item that is not being processed
+  const remove = useCallback((id: string) => {
+    setItems(current => current.filter(item => item.id !== id || isActive(item)))
+  }, [])
+
+  const clearFinished = useCallback(() => {
+    setItems(current => current.filter(item => item.status !== 'done'))
+  }, [])
+
+  return { items, enqueue, retry, retryFailed, cancel, remove, clearFinished }
+}
+
+export type UploadQueue = ReturnType<typeof useUploadQueue>
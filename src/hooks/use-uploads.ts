@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { UploadsContext } from '@/lib/upload/context'
+
+/**
+ * The app-wide upload queue, which keeps running while the user moves
+ * between pages.
+ */
+export function useUploads() {
+  const uploads = useContext(UploadsContext)
+  if (!uploads) throw new Error('useUploads must be used inside an UploadsProvider')
+  return uploads
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { loadAccessScope, loadReadableDocuments } from '@/lib/access'
+import { createLocalDataServices, LOCAL_USER } from '@/lib/data/local'
+
+async function setup(documents: { name: string; trashed?: boolean }[]) {
+  const data = createLocalDataServices()
+  for (const [i, { name, trashed }] of documents.entries()) {
+    const at = new Date(Date.UTC(2024, 0, i + 1)).toISOString()
+    await data.documents.create({
+      name,
+      content: '',
+      fileType: 'text/plain',
+      fileSize: 1,
+      projectId: 'project-1',
+      uploadedBy: LOCAL_USER.id,
+      visibility: 'private',
+      deletedAt: trashed ? at : null,
+      createdAt: at,
+      updatedAt: at
+    })
+  }
+  return { data, scope: await loadAccessScope(data, LOCAL_USER.id) }
+}
+
+describe('loadReadableDocuments', () => {
+  it('fills the limit with documents that are not in the trash', async () => {
+    const { data, scope } = await setup([
+      { name: 'a' },
+      { name: 'b' },
+      { name: 'c' },
+      { name: 'd', trashed: true },
+      { name: 'e', trashed: true },
+      { name: 'f', trashed: true }
+    ])
+
+    const recent = await loadReadableDocuments(data, scope, { limit: 2 })
+
+    expect(recent.map(document => document.name)).toEqual(['c', 'b'])
+  })
+
+  it('returns fewer documents when there are not enough', async () => {
+    const { data, scope } = await setup([{ name: 'a' }, { name: 'b', trashed: true }])
+
+    expect(await loadReadableDocuments(data, scope, { limit: 5 })).toHaveLength(1)
+    expect(await loadReadableDocuments(data, scope, { limit: 5, includeTrashed: true })).toHaveLength(2)
+  })
+})
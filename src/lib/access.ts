@@ -0,0 +1,76 @@
+import type { DataServices, DocumentQuery } from '@/lib/data/types'
+import type { Document, Project, ProjectMember } from '@/types'
+
+export interface AccessScope {
+  userId: string
+  // Projects the user owns or is a member of, leaving out trashed ones
+  projects: Project[]
+  memberships: ProjectMember[]
+}
+
+/**
+ * IDs of the projects whose team documents the user may read. Owners count
+ * as members of their own projects even without a `ProjectMember` row.
+ */
+export function memberProjectIds(scope: AccessScope): Set<string> {
+  return new Set([
+    ...scope.projects.filter(project => project.ownerId === scope.userId).map(project => project.id),
+    ...scope.memberships.filter(member => member.userId === scope.userId).map(member => member.projectId)
+  ])
+}
+
+/**
+ * A user may read their own documents, whatever their visibility, and the
+ * team documents of every project they belong to.
+ */
+export function canReadDocument(scope: AccessScope, document: Document, projectIds = memberProjectIds(scope)) {
+  if (document.uploadedBy === scope.userId) return true
+  return document.visibility === 'team' && projectIds.has(document.projectId)
+}
+
+export function filterReadableDocuments(scope: AccessScope, documents: Document[]) {
+  const projectIds = memberProjectIds(scope)
+  return documents.filter(document => canReadDocument(scope, document, projectIds))
+}
+
+export async function loadAccessScope(data: DataServices, userId: string): Promise<AccessScope> {
+  const memberships = await data.members.listForUser(userId)
+  const projects = await data.projects.listAccessible(userId, memberships.map(member => member.projectId))
+  return { userId, projects: projects.filter(project => !project.deletedAt), memberships }
+}
+
+export interface DocumentListOptions {
+  orderBy?: DocumentQuery['orderBy']
+  limit?: number
+  // Include documents in the trash, which are otherwise left out
+  includeTrashed?: boolean
+}
+
+/**
+ * List every document the user may read: their own plus team documents in
+ * their projects. The query narrows the rows fetched; the result is checked
+ * again with `canReadDocument` so the rule lives in one place.
+ *
+ * With a `limit`, rows are fetched a page at a time until enough of them
+ * pass those checks, so trashed documents do not take up the slots.
+ */
+export async function loadReadableDocuments(
+  data: DataServices,
+  scope: AccessScope,
+  options: DocumentListOptions = {}
+): Promise<Document[]> {
+  const { orderBy, limit, includeTrashed } = options
+  const query = { uploadedBy: scope.userId, teamProjectIds: [...memberProjectIds(scope)], orderBy }
+  const keep = (documents: Document[]) =>
+    filterReadableDocuments(scope, documents).filter(document => includeTrashed || !document.deletedAt)
+
+  if (limit === undefined) return keep(await data.documents.list(query))
+
+  const readable: Document[] = []
+  for (let offset = 0; readable.length < limit; offset += limit) {
+    const page = await data.documents.list({ ...query, limit, offset })
+    readable.push(...keep(page))
+    if (page.length < limit) break
+  }
+  return readable.slice(0, limit)
+}
@@ -0,0 +1,26 @@
+import { createFakeStreamer, type TextStreamer } from '@/lib/ai/streaming'
+
+// A numbered passage as laid out by `buildPassageContext`
+const PASSAGE_PATTERN = /^\[(\d+)\] Document: .*\n([\s\S]*?)\n---$/gm
+const MAX_QUOTES = 3
+const MAX_QUOTE_LENGTH = 240
+
+function opening(text: string) {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  const sentence = flat.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? flat
+  return sentence.length > MAX_QUOTE_LENGTH ? `${sentence.slice(0, MAX_QUOTE_LENGTH - 3)}...` : sentence
+}
+
+/**
+ * Stands in for a model when working offline. It answers by quoting the
+ * opening of the best passages in the prompt, citing each, and replies with
+ * nothing to prompts without passages, such as follow-up rewrites.
+ */
+export const extractiveStreamer: TextStreamer = {
+  streamText(request, onText) {
+    const quotes = [...request.prompt.matchAll(PASSAGE_PATTERN)]
+      .slice(0, MAX_QUOTES)
+      .map(([, marker, text]) => `${opening(text)} [${marker}]`)
+    return createFakeStreamer(quotes.map((quote, i) => (i === 0 ? quote : ` ${quote}`))).streamText(request, onText)
+  }
+}
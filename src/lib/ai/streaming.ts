@@ -0,0 +1,57 @@
+export interface StreamRequest {
+  prompt: string
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+export interface StreamResult {
+  text: string
+  // True when the request was cancelled and `text` is a partial answer
+  aborted: boolean
+}
+
+/**
+ * Anything that can stream a text completion. Pages depend on this rather
+ * than on a particular AI client so a fake streamer can stand in for it.
+ */
+export interface TextStreamer {
+  streamText(request: StreamRequest, onText: (text: string) => void): Promise<StreamResult>
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Resolves once the signal fires, never without one
+export function abortPromise(signal?: AbortSignal) {
+  return new Promise<void>(resolve => {
+    if (!signal) return
+    if (signal.aborted) return resolve()
+    signal.addEventListener('abort', () => resolve(), { once: true })
+  })
+}
+
+export interface FakeStreamerOptions {
+  delayMs?: number
+}
+
+/**
+ * A streamer that replays fixed chunks with a delay between them, for local
+ * development and tests without the AI backend.
+ */
+export function createFakeStreamer(chunks: string[], options: FakeStreamerOptions = {}): TextStreamer {
+  const delayMs = options.delayMs ?? 20
+
+  return {
+    async streamText({ signal }, onText) {
+      let text = ''
+      for (const chunk of chunks) {
+        await Promise.race([new Promise(resolve => setTimeout(resolve, delayMs)), abortPromise(signal)])
+        if (signal?.aborted) return { text, aborted: true }
+        text += chunk
+        onText(text)
+      }
+      return { text, aborted: false }
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { blink } from '@/blink/client'
+import { abortPromise, isAbortError } from '@/lib/ai/streaming'
+import type { DataServices } from '@/lib/data/types'
+import type { User } from '@/types'
+
+function toUser(user: { id: string; email: string; displayName?: string; createdAt?: string }): User {
+  return { id: user.id, email: user.email, displayName: user.displayName, createdAt: user.createdAt ?? '' }
+}
+
+// `in` with an empty list is rejected, so callers check for that first
+const inList = (values: string[]) => ({ in: values })
+
+/**
+ * The hosted backend: Blink's database, storage, auth and AI.
+ */
+export const blinkDataServices: DataServices = {
+  auth: {
+    async me() {
+      return toUser(await blink.auth.me())
+    },
+    onAuthStateChanged(callback) {
+      return blink.auth.onAuthStateChanged(state =>
+        callback({ user: state.user && toUser(state.user), isLoading: state.isLoading })
+      )
+    },
+    login: () => blink.auth.login(),
+    logout: () => blink.auth.logout()
+  },
+
+  projects: {
+    listAccessible(userId, memberOf) {
+      return blink.db.projects.list({
+        where: memberOf.length > 0
+          ? { OR: [{ ownerId: userId }, { id: inList(memberOf) }] }
+          : { ownerId: userId },
+        orderBy: { name: 'asc' }
+      })
+    },
+    listOwnedBy(userId) {
+      return blink.db.projects.list({
+        where: { ownerId: userId },
+        orderBy: { updatedAt: 'desc' }
+      })
+    },
+    create: project => blink.db.projects.create(project),
+    async update(id, changes) {
+      await blink.db.projects.update(id, changes)
+    },
+    async delete(id) {
+      await blink.db.projects.delete(id)
+    }
+  },
+
+  members: {
+    async listForProjects(projectIds) {
+      if (projectIds.length === 0) return []
+      return blink.db.projectMembers.list({
+        where: { projectId: inList(projectIds) },
+        orderBy: { joinedAt: 'asc' }
+      })
+    },
+    listForUser: userId => blink.db.projectMembers.list({ where: { userId } }),
+    async find(projectId, userId) {
+      const [member] = await blink.db.projectMembers.list({ where: { projectId, userId }, limit: 1 })
+      return member ?? null
+    },
+    create: member => blink.db.projectMembers.create(member),
+    async update(id, changes) {
+      await blink.db.projectMembers.update(id, changes)
+    },
+    async delete(id) {
+      await blink.db.projectMembers.delete(id)
+    },
+    async deleteForProject(projectId) {
+      await blink.db.projectMembers.deleteMany({ where: { projectId } })
+    },
+
+    listInvitations(query) {
+      return blink.db.projectInvitations.list({
+        where: Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined)),
+        orderBy: { createdAt: 'desc' }
+      })
+    },
+    createInvitation: invitation => blink.db.projectInvitations.create(invitation),
+    async updateInvitation(id, changes) {
+      await blink.db.projectInvitations.update(id, changes)
+    },
+    async deleteInvitationsForProject(projectId) {
+      await blink.db.projectInvitations.deleteMany({ where: { projectId } })
+    }
+  },
+
+  documents: {
+    list({ uploadedBy, teamProjectIds, orderBy, limit, offset }) {
+      const where = teamProjectIds.length > 0
+        ? { OR: [{ uploadedBy }, { AND: [{ visibility: 'team' }, { projectId: inList(teamProjectIds) }] }] }
+        : { uploadedBy }
+      return blink.db.documents.list({
+        where,
+        orderBy: orderBy ? { [orderBy.field]: orderBy.direction } : { createdAt: 'desc' },
+        limit,
+        offset
+      })
+    },
+    async get(id) {
+      const [document] = await blink.db.documents.list({ where: { id }, limit: 1 })
+      return document ?? null
+    },
+    listForProject: projectId => blink.db.documents.list({ where: { projectId } }),
+    create: document => blink.db.documents.create(document),
+    async update(id, changes) {
+      await blink.db.documents.update(id, changes)
+    },
+    async delete(id) {
+      await blink.db.documents.delete(id)
+    },
+
+    async listVersions(documentIds) {
+      if (documentIds.length === 0) return []
+      return blink.db.documentVersions.list({
+        where: { documentId: inList(documentIds) },
+        orderBy: { version: 'desc' }
+      })
+    },
+    createVersion: version => blink.db.documentVersions.create(version),
+    async deleteVersions(documentId) {
+      await blink.db.documentVersions.deleteMany({ where: { documentId } })
+    },
+
+    async listPassages(documentIds) {
+      if (documentIds.length === 0) return []
+      return blink.db.passages.list({
+        where: { documentId: inList(documentIds) },
+        orderBy: { position: 'asc' }
+      })
+    },
+    createPassages: passages => blink.db.passages.createMany(passages),
+    async deletePassages(documentId) {
+      await blink.db.passages.deleteMany({ where: { documentId } })
+    }
+  },
+
+  searchHistory: {
+    listThreads(userId) {
+      return blink.db.searchThreads.list({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' }
+      })
+    },
+    createThread: thread => blink.db.searchThreads.create(thread),
+    async updateThread(id, changes) {
+      await blink.db.searchThreads.update(id, changes)
+    },
+    async deleteThread(id) {
+      await blink.db.searchThreads.delete(id)
+    },
+    listMessages(threadId) {
+      return blink.db.searchMessages.list({
+        where: { threadId },
+        orderBy: { createdAt: 'asc' }
+      })
+    },
+    createMessages: messages => blink.db.searchMessages.createMany(messages),
+    async deleteMessages(threadId) {
+      await blink.db.searchMessages.deleteMany({ where: { threadId } })
+    }
+  },
+
+  settings: {
+    async get(userId) {
+      const [settings] = await blink.db.userSettings.list({ where: { userId }, limit: 1 })
+      return settings ?? null
+    },
+    async save(settings) {
+      const [existing] = await blink.db.userSettings.list({ where: { userId: settings.userId }, limit: 1 })
+      if (existing) await blink.db.userSettings.update(existing.id, settings)
+      else await blink.db.userSettings.create(settings)
+    }
+  },
+
+  storage: {
+    async upload(file, path, { onProgress } = {}) {
+      const { publicUrl } = await blink.storage.upload(file, path, { upsert: false, onProgress })
+      return { url: publicUrl }
+    },
+    async downloadUrl(path) {
+      const { downloadUrl } = await blink.storage.download(path)
+      return downloadUrl
+    },
+    remove: (...paths) => blink.storage.remove(...paths)
+  },
+
+  ai: {
+    async streamText({ prompt, maxTokens, signal }, onText) {
+      let text = ''
+      const request = blink.ai.streamText({ prompt, maxTokens, signal }, chunk => {
+        // Drop chunks that arrive after the user pressed stop
+        if (signal?.aborted) return
+        text += chunk
+        onText(text)
+      })
+      // Keep the rejection from an aborted request from going unhandled
+      request.catch(() => {})
+
+      try {
+        // Settle as soon as the signal fires, even if the client keeps reading
+        await Promise.race([request, abortPromise(signal)])
+      } catch (error) {
+        if (!signal?.aborted && !isAbortError(error)) throw error
+      }
+
+      return { text, aborted: signal?.aborted ?? false }
+    },
+    async extractText(file) {
+      const extracted = await blink.data.extractFromBlob(file)
+      return Array.isArray(extracted) ? extracted.join('\n\n') : extracted
+    }
+  }
+}
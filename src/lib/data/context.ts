@@ -0,0 +1,4 @@
+import { createContext } from 'react'
+import type { DataServices } from '@/lib/data/types'
+
+export const DataContext = createContext<DataServices | null>(null)
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createLocalDataServices, LOCAL_USER } from '@/lib/data/local'
+import type { Document } from '@/types'
+
+function newDocument(name: string, changes: Partial<Document> = {}) {
+  return {
+    name,
+    content: '',
+    fileType: 'text/plain',
+    fileSize: 1,
+    projectId: 'project-1',
+    uploadedBy: LOCAL_USER.id,
+    visibility: 'private' as const,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...changes
+  }
+}
+
+describe('local storage', () => {
+  it('refuses to overwrite a stored file', async () => {
+    const data = createLocalDataServices()
+    await data.storage.upload(new File(['first'], 'a.txt'), 'documents/a.txt')
+
+    await expect(data.storage.upload(new File(['second'], 'a.txt'), 'documents/a.txt')).rejects.toThrow(/already stored/)
+    const url = await data.storage.downloadUrl('documents/a.txt')
+    expect(await (await fetch(url)).text()).toBe('first')
+  })
+
+  it('reuses a download URL until the file is removed', async () => {
+    const data = createLocalDataServices()
+    const revoke = vi.spyOn(URL, 'revokeObjectURL')
+    await data.storage.upload(new File(['text'], 'a.txt'), 'documents/a.txt')
+
+    const url = await data.storage.downloadUrl('documents/a.txt')
+    expect(await data.storage.downloadUrl('documents/a.txt')).toBe(url)
+
+    await data.storage.remove('documents/a.txt')
+    expect(revoke).toHaveBeenCalledWith(url)
+    await expect(data.storage.downloadUrl('documents/a.txt')).rejects.toThrow(/No file stored/)
+    revoke.mockRestore()
+  })
+})
+
+describe('local documents', () => {
+  it('lists own and team documents in pages', async () => {
+    const data = createLocalDataServices()
+    await data.documents.create(newDocument('mine', { createdAt: '2024-01-03T00:00:00.000Z' }))
+    await data.documents.create(newDocument('team', { uploadedBy: 'other', visibility: 'team', createdAt: '2024-01-02T00:00:00.000Z' }))
+    await data.documents.create(newDocument('private', { uploadedBy: 'other' }))
+    await data.documents.create(newDocument('elsewhere', { uploadedBy: 'other', visibility: 'team', projectId: 'project-2' }))
+
+    const query = { uploadedBy: LOCAL_USER.id, teamProjectIds: ['project-1'] }
+    const names = (documents: Document[]) => documents.map(document => document.name)
+
+    expect(names(await data.documents.list(query))).toEqual(['mine', 'team'])
+    expect(names(await data.documents.list({ ...query, limit: 1, offset: 1 }))).toEqual(['team'])
+  })
+})
@@ -0,0 +1,241 @@
+import { extractiveStreamer } from '@/lib/ai/extractive'
+import { createLocalStore, type LocalStore, type LocalTable, type TableName } from '@/lib/data/store'
+import type { AIService, AuthState, DataServices, NewRecord } from '@/lib/data/types'
+import type {
+  Document,
+  DocumentVersion,
+  Passage,
+  Project,
+  ProjectInvitation,
+  ProjectMember,
+  SearchMessage,
+  SearchThread,
+  User,
+  UserSettings
+} from '@/types'
+
+// The one account of a local workspace
+export const LOCAL_USER: User = {
+  id: 'local-user',
+  email: 'you@localhost',
+  displayName: 'Local User',
+  createdAt: '2024-01-01T00:00:00.000Z'
+}
+
+function compare<T>(field: keyof T, direction: 'asc' | 'desc' = 'asc') {
+  const sign = direction === 'asc' ? 1 : -1
+  return (a: T, b: T) => {
+    const x = a[field]
+    const y = b[field]
+    if (x === y) return 0
+    if (x === undefined || x === null) return sign
+    if (y === undefined || y === null) return -sign
+    return (x < y ? -1 : 1) * sign
+  }
+}
+
+// Row access shared by every repository
+function records<T extends { id: string }>(store: LocalStore, name: TableName) {
+  const table: LocalTable<T> = store.table<T>(name)
+
+  return {
+    ...table,
+    where: async (matches: (row: T) => boolean) => (await table.all()).filter(matches),
+    create: (row: NewRecord<T>) => table.put({ ...row, id: crypto.randomUUID() } as T),
+    async update(id: string, changes: Partial<T>) {
+      const row = await table.get(id)
+      if (!row) throw new Error(`No ${name} record with ID ${id}`)
+      await table.put({ ...row, ...changes, id })
+    },
+    async deleteWhere(matches: (row: T) => boolean) {
+      const rows = (await table.all()).filter(matches)
+      await table.delete(...rows.map(row => row.id))
+    }
+  }
+}
+
+const unavailableAI: Pick<AIService, 'extractText'> = {
+  async extractText(file) {
+    throw new Error(`${file.name} can only be read with the hosted backend`)
+  }
+}
+
+export interface LocalDataOptions {
+  store?: LocalStore
+  ai?: AIService
+  // Start signed out, as after a logout
+  signedOut?: boolean
+}
+
+/**
+ * A complete backend that runs in the browser, for working offline and for
+ * tests. Everything belongs to `LOCAL_USER`. AI answers quote the retrieved
+ * passages instead of coming from a model.
+ */
+export function createLocalDataServices({ store = createLocalStore(), ai, signedOut = false }: LocalDataOptions = {}): DataServices {
+  const projects = records<Project>(store, 'projects')
+  const members = records<ProjectMember>(store, 'projectMembers')
+  const invitations = records<ProjectInvitation>(store, 'projectInvitations')
+  const documents = records<Document>(store, 'documents')
+  const versions = records<DocumentVersion>(store, 'documentVersions')
+  const passages = records<Passage>(store, 'passages')
+  const threads = records<SearchThread>(store, 'searchThreads')
+  const messages = records<SearchMessage>(store, 'searchMessages')
+  const settings = records<UserSettings>(store, 'userSettings')
+  // Object URLs handed out by `downloadUrl`, by storage path
+  const objectUrls = new Map<string, string>()
+
+  let auth: AuthState = { user: signedOut ? null : LOCAL_USER, isLoading: false }
+  const listeners = new Set<(state: AuthState) => void>()
+  const setUser = (user: User | null) => {
+    auth = { user, isLoading: false }
+    listeners.forEach(listener => listener(auth))
+  }
+
+  return {
+    auth: {
+      async me() {
+        if (!auth.user) throw new Error('Not signed in')
+        return auth.user
+      },
+      onAuthStateChanged(callback) {
+        listeners.add(callback)
+        callback(auth)
+        return () => listeners.delete(callback)
+      },
+      login: () => setUser(LOCAL_USER),
+      logout: () => setUser(null)
+    },
+
+    projects: {
+      async listAccessible(userId, memberOf) {
+        const rows = await projects.where(project => project.ownerId === userId || memberOf.includes(project.id))
+        return rows.sort(compare('name'))
+      },
+      async listOwnedBy(userId) {
+        const rows = await projects.where(project => project.ownerId === userId)
+        return rows.sort(compare('updatedAt', 'desc'))
+      },
+      create: projects.create,
+      update: projects.update,
+      delete: id => projects.delete(id)
+    },
+
+    members: {
+      async listForProjects(projectIds) {
+        const rows = await members.where(member => projectIds.includes(member.projectId))
+        return rows.sort(compare('joinedAt'))
+      },
+      listForUser: userId => members.where(member => member.userId === userId),
+      async find(projectId, userId) {
+        const [member] = await members.where(row => row.projectId === projectId && row.userId === userId)
+        return member ?? null
+      },
+      create: members.create,
+      update: members.update,
+      delete: id => members.delete(id),
+      deleteForProject: projectId => members.deleteWhere(member => member.projectId === projectId),
+
+      async listInvitations({ projectId, email, status }) {
+        const rows = await invitations.where(invitation =>
+          (projectId === undefined || invitation.projectId === projectId) &&
+          (email === undefined || invitation.email === email) &&
+          (status === undefined || invitation.status === status)
+        )
+        return rows.sort(compare('createdAt', 'desc'))
+      },
+      createInvitation: invitations.create,
+      updateInvitation: invitations.update,
+      deleteInvitationsForProject: projectId => invitations.deleteWhere(invitation => invitation.projectId === projectId)
+    },
+
+    documents: {
+      async list({ uploadedBy, teamProjectIds, orderBy, limit, offset = 0 }) {
+        const rows = await documents.where(document =>
+          document.uploadedBy === uploadedBy ||
+          (document.visibility === 'team' && teamProjectIds.includes(document.projectId))
+        )
+        rows.sort(compare(orderBy?.field ?? 'createdAt', orderBy?.direction ?? 'desc'))
+        return rows.slice(offset, limit === undefined ? undefined : offset + limit)
+      },
+      get: id => documents.get(id),
+      listForProject: projectId => documents.where(document => document.projectId === projectId),
+      create: documents.create,
+      update: documents.update,
+      delete: id => documents.delete(id),
+
+      async listVersions(documentIds) {
+        const rows = await versions.where(version => documentIds.includes(version.documentId))
+        return rows.sort(compare('version', 'desc'))
+      },
+      createVersion: version => versions.put(version),
+      deleteVersions: documentId => versions.deleteWhere(version => version.documentId === documentId),
+
+      async listPassages(documentIds) {
+        const rows = await passages.where(passage => documentIds.includes(passage.documentId))
+        return rows.sort(compare('position'))
+      },
+      createPassages: rows => Promise.all(rows.map(passage => passages.put(passage))),
+      deletePassages: documentId => passages.deleteWhere(passage => passage.documentId === documentId)
+    },
+
+    searchHistory: {
+      async listThreads(userId) {
+        const rows = await threads.where(thread => thread.userId === userId)
+        return rows.sort(compare('updatedAt', 'desc'))
+      },
+      createThread: threads.create,
+      updateThread: threads.update,
+      deleteThread: id => threads.delete(id),
+      async listMessages(threadId) {
+        const rows = await messages.where(message => message.threadId === threadId)
+        return rows.sort(compare('createdAt'))
+      },
+      createMessages: rows => Promise.all(rows.map(messages.create)),
+      deleteMessages: threadId => messages.deleteWhere(message => message.threadId === threadId)
+    },
+
+    settings: {
+      async get(userId) {
+        const [row] = await settings.where(setting => setting.userId === userId)
+        return row ?? null
+      },
+      async save(changes) {
+        const [row] = await settings.where(setting => setting.userId === changes.userId)
+        if (row) await settings.update(row.id, changes)
+        else await settings.create(changes)
+      }
+    },
+
+    storage: {
+      // Like the hosted storage, an upload never replaces an existing file
+      async upload(file, path, { onProgress } = {}) {
+        if (await store.files.get(path)) throw new Error(`A file is already stored at ${path}`)
+        await store.files.put(path, file)
+        onProgress?.(100)
+        return {}
+      },
+      // Files have no lasting URL, so one is made on first use and kept
+      // until the file is removed
+      async downloadUrl(path) {
+        const cached = objectUrls.get(path)
+        if (cached) return cached
+        const file = await store.files.get(path)
+        if (!file) throw new Error(`No file stored at ${path}`)
+        const url = URL.createObjectURL(file)
+        objectUrls.set(path, url)
+        return url
+      },
+      async remove(...paths) {
+        await store.files.delete(...paths)
+        for (const path of paths) {
+          const url = objectUrls.get(path)
+          if (url) URL.revokeObjectURL(url)
+          objectUrls.delete(path)
+        }
+      }
+    },
+
+    ai: ai ?? { streamText: extractiveStreamer.streamText, ...unavailableAI }
+  }
+}
@@ -0,0 +1,145 @@
+export const TABLES = [
+  'projects',
+  'projectMembers',
+  'projectInvitations',
+  'documents',
+  'documentVersions',
+  'passages',
+  'searchThreads',
+  'searchMessages',
+  'userSettings'
+] as const
+
+export type TableName = (typeof TABLES)[number]
+
+export interface LocalTable<T extends { id: string }> {
+  all(): Promise<T[]>
+  get(id: string): Promise<T | null>
+  put(row: T): Promise<T>
+  delete(...ids: string[]): Promise<void>
+}
+
+export interface LocalStore {
+  table<T extends { id: string }>(name: TableName): LocalTable<T>
+  files: {
+    get(path: string): Promise<Blob | null>
+    put(path: string, blob: Blob): Promise<void>
+    delete(...paths: string[]): Promise<void>
+  }
+}
+
+// Where rows and files are written through to, if anywhere
+interface Persistence {
+  load(store: string): Promise<Map<string, unknown>>
+  put(store: string, key: string, value: unknown): Promise<void>
+  delete(store: string, keys: string[]): Promise<void>
+}
+
+const FILES = 'files'
+
+function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function completion(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function indexedDbPersistence(name: string, factory: IDBFactory): Persistence {
+  const database = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(name, 1)
+    request.onupgradeneeded = () => {
+      for (const store of [...TABLES, FILES]) {
+        if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  return {
+    async load(store) {
+      const objects = (await database).transaction(store).objectStore(store)
+      const [keys, values] = await Promise.all([settle(objects.getAllKeys()), settle(objects.getAll())])
+      return new Map(keys.map((key, i) => [String(key), values[i]]))
+    },
+    async put(store, key, value) {
+      const transaction = (await database).transaction(store, 'readwrite')
+      transaction.objectStore(store).put(value, key)
+      await completion(transaction)
+    },
+    async delete(store, keys) {
+      const transaction = (await database).transaction(store, 'readwrite')
+      keys.forEach(key => transaction.objectStore(store).delete(key))
+      await completion(transaction)
+    }
+  }
+}
+
+export interface LocalStoreOptions {
+  // IndexedDB database to keep the data in between visits; without one
+  // everything is lost on reload
+  databaseName?: string
+  indexedDB?: IDBFactory
+}
+
+/**
+ * Tables of records and a file store held in memory. With a database name
+ * they are loaded from IndexedDB on first use and every write goes through
+ * to it.
+ */
+export function createLocalStore({ databaseName, indexedDB = globalThis.indexedDB }: LocalStoreOptions = {}): LocalStore {
+  const persistence = databaseName && indexedDB ? indexedDbPersistence(databaseName, indexedDB) : null
+  const loaded = new Map<string, Promise<Map<string, unknown>>>()
+
+  const contents = (store: string) => {
+    let content = loaded.get(store)
+    if (!content) {
+      content = persistence ? persistence.load(store) : Promise.resolve(new Map())
+      loaded.set(store, content)
+    }
+    return content
+  }
+
+  const put = async (store: string, key: string, value: unknown) => {
+    const content = await contents(store)
+    content.set(key, value)
+    await persistence?.put(store, key, value)
+  }
+
+  const remove = async (store: string, keys: string[]) => {
+    const content = await contents(store)
+    keys.forEach(key => content.delete(key))
+    if (keys.length > 0) await persistence?.delete(store, keys)
+  }
+
+  return {
+    table<T extends { id: string }>(name: TableName): LocalTable<T> {
+      return {
+        // Copies, so callers cannot change stored rows by accident
+        all: async () => [...(await contents(name)).values()].map(row => ({ ...(row as T) })),
+        async get(id) {
+          const row = (await contents(name)).get(id) as T | undefined
+          return row ? { ...row } : null
+        },
+        async put(row) {
+          await put(name, row.id, { ...row })
+          return { ...row }
+        },
+        delete: (...ids) => remove(name, ids)
+      }
+    },
+    files: {
+      get: async path => ((await contents(FILES)).get(path) as Blob | undefined) ?? null,
+      put: (path, blob) => put(FILES, path, blob),
+      delete: (...paths) => remove(FILES, paths)
+    }
+  }
+}
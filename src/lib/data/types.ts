@@ -0,0 +1,143 @@
+import type { StreamRequest, StreamResult } from '@/lib/ai/streaming'
+import type {
+  Document,
+  DocumentVersion,
+  Passage,
+  Project,
+  ProjectInvitation,
+  ProjectMember,
+  SearchMessage,
+  SearchThread,
+  User,
+  UserSettings
+} from '@/types'
+
+// Records as created: the backend assigns the ID
+export type NewRecord<T extends { id: string }> = Omit<T, 'id'>
+
+export interface AuthState {
+  user: User | null
+  isLoading: boolean
+}
+
+export interface AuthService {
+  // The signed-in user; rejects when nobody is signed in
+  me(): Promise<User>
+  // Called with the current state right away and on every change
+  onAuthStateChanged(callback: (state: AuthState) => void): () => void
+  login(): void
+  logout(): void
+}
+
+export interface ProjectRepository {
+  // Projects the user owns or whose IDs are given, by name, trashed included
+  listAccessible(userId: string, memberOf: string[]): Promise<Project[]>
+  // Most recently updated first, trashed included
+  listOwnedBy(userId: string): Promise<Project[]>
+  create(project: NewRecord<Project>): Promise<Project>
+  update(id: string, changes: Partial<Project>): Promise<void>
+  delete(id: string): Promise<void>
+}
+
+export interface InvitationQuery {
+  projectId?: string
+  email?: string
+  status?: ProjectInvitation['status']
+}
+
+export interface MemberRepository {
+  // Oldest membership first
+  listForProjects(projectIds: string[]): Promise<ProjectMember[]>
+  listForUser(userId: string): Promise<ProjectMember[]>
+  find(projectId: string, userId: string): Promise<ProjectMember | null>
+  create(member: NewRecord<ProjectMember>): Promise<ProjectMember>
+  update(id: string, changes: Partial<ProjectMember>): Promise<void>
+  delete(id: string): Promise<void>
+  deleteForProject(projectId: string): Promise<void>
+
+  // Newest invitation first
+  listInvitations(query: InvitationQuery): Promise<ProjectInvitation[]>
+  createInvitation(invitation: NewRecord<ProjectInvitation>): Promise<ProjectInvitation>
+  updateInvitation(id: string, changes: Partial<ProjectInvitation>): Promise<void>
+  deleteInvitationsForProject(projectId: string): Promise<void>
+}
+
+export interface DocumentQuery {
+  // The user's own documents, whatever their visibility
+  uploadedBy: string
+  // Plus the team documents of these projects
+  teamProjectIds: string[]
+  orderBy?: { field: 'createdAt' | 'updatedAt'; direction: 'asc' | 'desc' }
+  limit?: number
+  // Rows to skip, for fetching page by page
+  offset?: number
+}
+
+export interface DocumentRepository {
+  list(query: DocumentQuery): Promise<Document[]>
+  get(id: string): Promise<Document | null>
+  listForProject(projectId: string): Promise<Document[]>
+  create(document: NewRecord<Document>): Promise<Document>
+  update(id: string, changes: Partial<Document>): Promise<void>
+  delete(id: string): Promise<void>
+
+  // Newest version first
+  listVersions(documentIds: string[]): Promise<DocumentVersion[]>
+  // Versions carry their own `<documentId>_v<number>` IDs
+  createVersion(version: DocumentVersion): Promise<DocumentVersion>
+  deleteVersions(documentId: string): Promise<void>
+
+  // In document order
+  listPassages(documentIds: string[]): Promise<Passage[]>
+  createPassages(passages: Passage[]): Promise<Passage[]>
+  deletePassages(documentId: string): Promise<void>
+}
+
+export interface SearchHistoryRepository {
+  // Most recently active first
+  listThreads(userId: string): Promise<SearchThread[]>
+  createThread(thread: NewRecord<SearchThread>): Promise<SearchThread>
+  updateThread(id: string, changes: Partial<SearchThread>): Promise<void>
+  deleteThread(id: string): Promise<void>
+  // Oldest first
+  listMessages(threadId: string): Promise<SearchMessage[]>
+  createMessages(messages: NewRecord<SearchMessage>[]): Promise<SearchMessage[]>
+  deleteMessages(threadId: string): Promise<void>
+}
+
+export interface SettingsRepository {
+  get(userId: string): Promise<UserSettings | null>
+  save(settings: NewRecord<UserSettings>): Promise<void>
+}
+
+export interface UploadOptions {
+  onProgress?: (percent: number) => void
+}
+
+export interface StorageService {
+  // Resolves to a lasting URL for the file when the backend has one
+  upload(file: File, path: string, options?: UploadOptions): Promise<{ url?: string }>
+  downloadUrl(path: string): Promise<string>
+  remove(...paths: string[]): Promise<void>
+}
+
+export interface AIService {
+  streamText(request: StreamRequest, onText: (text: string) => void): Promise<StreamResult>
+  // Text of formats the browser cannot read itself, such as Word files
+  extractText(file: File): Promise<string>
+}
+
+/**
+ * Everything the app reads and writes. Pages get it from `useData`; library
+ * functions take it as their first argument.
+ */
+export interface DataServices {
+  auth: AuthService
+  projects: ProjectRepository
+  members: MemberRepository
+  documents: DocumentRepository
+  searchHistory: SearchHistoryRepository
+  settings: SettingsRepository
+  storage: StorageService
+  ai: AIService
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { diffStats, diffTexts } from '@/lib/diff'
+
+describe('diffTexts', () => {
+  it('diffs changed paragraphs word by word', () => {
+    const blocks = diffTexts('Intro\n\nThe old plan', 'Intro\n\nThe new plan', 'word')
+
+    expect(blocks[0]).toEqual({ type: 'equal', paragraphs: ['Intro'] })
+    expect(blocks[1]).toMatchObject({
+      type: 'change',
+      inline: [
+        { op: 'equal', text: 'The ' },
+        { op: 'delete', text: 'old' },
+        { op: 'insert', text: 'new' },
+        { op: 'equal', text: ' plan' }
+      ]
+    })
+  })
+
+  it('shows texts with too many paragraph edits as one replacement', () => {
+    const paragraphs = (prefix: string) => Array.from({ length: 600 }, (_, i) => `${prefix} ${i}`).join('\n\n')
+
+    const blocks = diffTexts(paragraphs('old'), paragraphs('new'), 'word')
+
+    expect(blocks).toHaveLength(1)
+    expect(diffStats(blocks)).toEqual({ changes: 1, insertedWords: 1200, deletedWords: 1200 })
+  })
+})
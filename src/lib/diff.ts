@@ -0,0 +1,196 @@
+export type DiffGranularity = 'word' | 'paragraph'
+
+export interface DiffPart {
+  op: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+/**
+ * A run of unchanged paragraphs, or one change: what the old version had
+ * (`left`), what the new version has (`right`) and both merged in reading
+ * order (`inline`).
+ */
+export type DiffBlock = EqualBlock | ChangeBlock
+
+export interface EqualBlock {
+  type: 'equal'
+  paragraphs: string[]
+}
+
+export interface ChangeBlock {
+  type: 'change'
+  left: DiffPart[]
+  right: DiffPart[]
+  inline: DiffPart[]
+}
+
+export interface DiffStats {
+  changes: number
+  insertedWords: number
+  deletedWords: number
+}
+
+// Beyond this many edits a word diff is unreadable anyway and the cost
+// grows quadratically, so the change is shown as a whole replacement
+const MAX_WORD_EDITS = 2000
+// The same for paragraphs; past this the versions share little but their name
+const MAX_PARAGRAPH_EDITS = 1000
+
+/**
+ * Myers' O((N+M)D) diff of two token sequences, one part per token. Returns
+ * null when the sequences differ by more than `maxEdits` insertions and
+ * deletions.
+ */
+function diffSequences(a: string[], b: string[], maxEdits = Infinity): DiffPart[] | null {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, maxEdits)
+  const offset = n + m + 1
+  const v = new Int32Array(2 * (n + m) + 3)
+  // trace[d] holds v for diagonals -d-1..d+1 before step d
+  const trace: Int32Array[] = []
+
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+  if (!found) return null
+
+  const parts: DiffPart[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]
+    const at = (k: number) => snapshot[k + d + 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      parts.push({ op: 'equal', text: a[--x] })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) parts.push({ op: 'insert', text: b[--y] })
+      else parts.push({ op: 'delete', text: a[--x] })
+    }
+    x = prevX
+    y = prevY
+  }
+
+  return parts.reverse()
+}
+
+// Join neighbouring parts with the same op into one
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = []
+  for (const part of parts) {
+    const last = merged[merged.length - 1]
+    if (last && last.op === part.op) last.text += part.text
+    else merged.push({ ...part })
+  }
+  return merged
+}
+
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+}
+
+// Words and the whitespace between them, so joining the tokens gives back
+// the original text
+function splitWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? []
+}
+
+function countWords(parts: DiffPart[], op: DiffPart['op']) {
+  return parts
+    .filter(part => part.op === op)
+    .reduce((total, part) => total + (part.text.match(/[^\s]+/g)?.length ?? 0), 0)
+}
+
+function changeBlock(removed: string[], added: string[], granularity: DiffGranularity): ChangeBlock {
+  const deleted: DiffPart[] = removed.length > 0 ? [{ op: 'delete', text: removed.join('\n\n') }] : []
+  const inserted: DiffPart[] = added.length > 0 ? [{ op: 'insert', text: added.join('\n\n') }] : []
+  const wholeReplacement: ChangeBlock = { type: 'change', left: deleted, right: inserted, inline: [...deleted, ...inserted] }
+
+  if (granularity === 'paragraph' || removed.length === 0 || added.length === 0) {
+    return wholeReplacement
+  }
+
+  const words = diffSequences(splitWords(removed.join('\n\n')), splitWords(added.join('\n\n')), MAX_WORD_EDITS)
+  if (!words) return wholeReplacement
+
+  const inline = mergeParts(words)
+
+  return {
+    type: 'change',
+    left: mergeParts(inline.filter(part => part.op !== 'insert')),
+    right: mergeParts(inline.filter(part => part.op !== 'delete')),
+    inline
+  }
+}
+
+/**
+ * Compare two texts paragraph by paragraph. At word granularity each changed
+ * run of paragraphs is diffed again word by word. Texts too different to
+ * diff cheaply come back as one change replacing all of the old text.
+ */
+export function diffTexts(oldText: string, newText: string, granularity: DiffGranularity): DiffBlock[] {
+  const oldParagraphs = splitParagraphs(oldText)
+  const newParagraphs = splitParagraphs(newText)
+  const paragraphs = diffSequences(oldParagraphs, newParagraphs, MAX_PARAGRAPH_EDITS)
+  if (!paragraphs) return [changeBlock(oldParagraphs, newParagraphs, 'paragraph')]
+
+  const blocks: DiffBlock[] = []
+  let removed: string[] = []
+  let added: string[] = []
+
+  const flushChange = () => {
+    if (removed.length === 0 && added.length === 0) return
+    blocks.push(changeBlock(removed, added, granularity))
+    removed = []
+    added = []
+  }
+
+  for (const part of paragraphs) {
+    if (part.op === 'delete') removed.push(part.text)
+    else if (part.op === 'insert') added.push(part.text)
+    else {
+      flushChange()
+      const last = blocks[blocks.length - 1]
+      if (last?.type === 'equal') last.paragraphs.push(part.text)
+      else blocks.push({ type: 'equal', paragraphs: [part.text] })
+    }
+  }
+  flushChange()
+
+  return blocks
+}
+
+export function diffStats(blocks: DiffBlock[]): DiffStats {
+  const changes = blocks.filter((block): block is ChangeBlock => block.type === 'change')
+  return {
+    changes: changes.length,
+    insertedWords: changes.reduce((total, block) => total + countWords(block.inline, 'insert'), 0),
+    deletedWords: changes.reduce((total, block) => total + countWords(block.inline, 'delete'), 0)
+  }
+}
@@ -0,0 +1,13 @@
+import type { DataServices } from '@/lib/data/types'
+import type { Document } from '@/types'
+
+/**
+ * Make a document private to its uploader or visible to the whole project
+ * team. Search and the viewer check visibility on the document itself, so
+ * nothing else needs updating.
+ */
+export async function changeVisibility(data: DataServices, document: Document, visibility: Document['visibility']): Promise<Document> {
+  const changes = { visibility, updatedAt: new Date().toISOString() }
+  await data.documents.update(document.id, changes)
+  return { ...document, ...changes }
+}
@@ -0,0 +1,60 @@
+import { tableToText } from '@/lib/extract/table'
+
+const DELIMITERS = [',', ';', '\t', '|']
+
+// The candidate that splits the first line into the most fields
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length)
+  return DELIMITERS[counts.indexOf(Math.max(...counts))]
+}
+
+/**
+ * Parse CSV as described in RFC 4180: quoted fields may contain delimiters,
+ * line breaks and doubled quotes. Semicolon, tab and pipe separated files
+ * are recognised from their first line.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+export function csvToText(text: string) {
+  return tableToText(parseCsv(text.replace(/^\uFEFF/, '')))
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { extractEml, type AttachmentExtractor } from '@/lib/extract/eml'
+
+const message = [
+  'From: Ana <ana@example.com>',
+  'Subject: Figures',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Figures attached.',
+  '--b1',
+  'Content-Type: application/pdf; name="broken.pdf"',
+  'Content-Disposition: attachment; filename="broken.pdf"',
+  '',
+  'not really a pdf',
+  '--b1',
+  'Content-Type: text/plain; name="notes.txt"',
+  'Content-Disposition: attachment; filename="notes.txt"',
+  '',
+  'Revenue is up.',
+  '--b1--',
+  ''
+].join('\r\n')
+
+describe('extractEml', () => {
+  it('lists an attachment that fails to extract by name and keeps the rest', async () => {
+    const extractAttachment: AttachmentExtractor = async ({ name, data }) => {
+      if (name === 'broken.pdf') throw new Error('Invalid PDF structure')
+      return new TextDecoder().decode(data).trim()
+    }
+
+    const text = await extractEml(new TextEncoder().encode(message), extractAttachment)
+
+    expect(text).toBe(
+      'From: Ana <ana@example.com>\nSubject: Figures\n\nFigures attached.\n\nAttachment: broken.pdf\n\nAttachment: notes.txt\n\nRevenue is up.'
+    )
+  })
+})
@@ -0,0 +1,186 @@
+import { htmlToText } from '@/lib/extract/html'
+
+export interface EmailAttachment {
+  name: string
+  data: Uint8Array
+}
+
+// Turns an attachment into text, or null when its format is not supported
+export type AttachmentExtractor = (attachment: EmailAttachment) => Promise<string | null>
+
+interface MimePart {
+  headers: Map<string, string>
+  // Raw body, one character per byte
+  body: string
+}
+
+interface ContentType {
+  type: string
+  params: Record<string, string>
+}
+
+const SHOWN_HEADERS = ['From', 'To', 'Cc', 'Date', 'Subject']
+
+function toBytes(binary: string) {
+  return Uint8Array.from(binary, char => char.charCodeAt(0) & 0xff)
+}
+
+// One character per byte, so bodies can be re-decoded in their own charset
+function toBinary(bytes: Uint8Array) {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return binary
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8') {
+  try {
+    return new TextDecoder(charset).decode(bytes)
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function decodeBase64(text: string) {
+  try {
+    return toBytes(atob(text.replace(/[^A-Za-z0-9+/=]/g, '')))
+  } catch {
+    return new Uint8Array()
+  }
+}
+
+function decodeQuotedPrintable(text: string) {
+  return toBytes(
+    text
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  )
+}
+
+// RFC 2047 encoded words such as `=?UTF-8?B?...?=`
+function decodeHeader(value: string) {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '))
+      return decodeBytes(bytes, charset)
+    })
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = raw.search(/\r?\n\r?\n/)
+  const head = separator === -1 ? raw : raw.slice(0, separator)
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '')
+
+  const headers = new Map<string, string>()
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    // Headers may carry raw UTF-8 as well as encoded words
+    const value = decodeHeader(decodeBytes(toBytes(line.slice(colon + 1).trim())))
+    if (!headers.has(name)) headers.set(name, value)
+  }
+  return { headers, body }
+}
+
+function parseParams(value: string) {
+  const params: Record<string, string> = {}
+  for (const match of value.matchAll(/;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;\s]*))/g)) {
+    params[match[1].toLowerCase()] = match[2] ?? match[3]
+  }
+  return params
+}
+
+function contentType(part: MimePart): ContentType {
+  const value = part.headers.get('content-type') ?? 'text/plain'
+  return { type: value.split(';')[0].trim().toLowerCase(), params: parseParams(value) }
+}
+
+function decodeBody(part: MimePart) {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').trim().toLowerCase()
+  if (encoding === 'base64') return decodeBase64(part.body)
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body)
+  return toBytes(part.body)
+}
+
+function splitMultipart(body: string, boundary: string) {
+  const delimiter = `--${boundary}`
+  const end = body.indexOf(`${delimiter}--`)
+  return (end === -1 ? body : body.slice(0, end))
+    .split(delimiter)
+    .slice(1)
+    .map(section => parsePart(section.replace(/^[^\n]*\n/, '')))
+}
+
+function attachmentName(part: MimePart, type: ContentType) {
+  const disposition = part.headers.get('content-disposition') ?? ''
+  const name = parseParams(disposition).filename ?? type.params.name
+  if (name) return name
+  return disposition.trim().toLowerCase().startsWith('attachment') ? 'attachment' : null
+}
+
+interface MessageText {
+  body: string[]
+  attachments: string[]
+}
+
+async function collect(
+  part: MimePart,
+  extractAttachment: AttachmentExtractor,
+  result: MessageText
+): Promise<void> {
+  const type = contentType(part)
+
+  if (type.type.startsWith('multipart/') && type.params.boundary) {
+    const children = splitMultipart(part.body, type.params.boundary)
+    if (type.type === 'multipart/alternative') {
+      // The same body in several forms: prefer plain text over HTML
+      const preferred = children.find(child => contentType(child).type === 'text/plain') ?? children[children.length - 1]
+      if (preferred) await collect(preferred, extractAttachment, result)
+      return
+    }
+    for (const child of children) await collect(child, extractAttachment, result)
+    return
+  }
+
+  if (type.type === 'message/rfc822') {
+    result.attachments.push(`Forwarded message\n\n${await extractEml(decodeBody(part), extractAttachment)}`)
+    return
+  }
+
+  const name = attachmentName(part, type)
+  if (name) {
+    // A corrupt attachment is listed by name like an unsupported one rather
+    // than failing the whole message
+    const text = await extractAttachment({ name, data: decodeBody(part) }).catch(() => null)
+    result.attachments.push(text ? `Attachment: ${name}\n\n${text}` : `Attachment: ${name}`)
+    return
+  }
+
+  if (type.type === 'text/plain' || type.type === 'text/html') {
+    const text = decodeBytes(decodeBody(part), type.params.charset)
+    result.body.push(type.type === 'text/html' ? htmlToText(text) : text.trim())
+  }
+}
+
+/**
+ * Text of a saved email: its main headers, the body (plain text preferred
+ * over HTML) and then each attachment by name. Attachments in a supported
+ * format contribute their text through `extractAttachment`.
+ */
+export async function extractEml(data: Uint8Array, extractAttachment: AttachmentExtractor) {
+  const message = parsePart(toBinary(data))
+  const result: MessageText = { body: [], attachments: [] }
+  await collect(message, extractAttachment, result)
+
+  const headers = SHOWN_HEADERS.flatMap(name => {
+    const value = message.headers.get(name.toLowerCase())
+    return value ? [`${name}: ${value}`] : []
+  })
+  return [headers.join('\n'), ...result.body, ...result.attachments].filter(Boolean).join('\n\n')
+}
@@ -0,0 +1,52 @@
+import { decodeEntities } from '@/lib/extract/markup'
+
+// Never part of the readable text
+const HIDDEN_ELEMENTS = ['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object']
+// Site chrome around the content: menus, banners, sidebars and forms
+const BOILERPLATE_ELEMENTS = ['nav', 'aside', 'footer', 'form', 'button', 'select', 'dialog']
+
+const BLOCK_ELEMENTS = 'p|div|section|article|main|header|h[1-6]|ul|ol|dl|table|blockquote|pre|figure|figcaption|address|hr'
+
+function removeElements(html: string, tags: string[]) {
+  return tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}\\s*>`, 'gi'), ' '),
+    html
+  )
+}
+
+function innerOf(html: string, tag: string) {
+  const matches = [...html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}\\s*>`, 'gi'))]
+  return matches.length > 0 ? matches.map(match => match[1]).join('\n\n') : null
+}
+
+/**
+ * Readable text of a saved web page. Content inside `<main>` or `<article>`
+ * is preferred when the page marks it up; navigation, sidebars, footers and
+ * forms are dropped. Tables keep one line per row with cells separated by
+ * ` | `.
+ */
+export function htmlToText(html: string) {
+  const withoutHidden = removeElements(html.replace(/<!--[\s\S]*?-->/g, ''), HIDDEN_ELEMENTS)
+  const title = decodeEntities(html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1] ?? '').trim()
+
+  const content = innerOf(withoutHidden, 'main') ?? innerOf(withoutHidden, 'article')
+  // A page-level header is a banner; inside an article it holds the heading
+  const region = content ?? removeElements(innerOf(withoutHidden, 'body') ?? withoutHidden, ['header'])
+
+  const text = decodeEntities(
+    removeElements(region, BOILERPLATE_ELEMENTS)
+      .replace(/<\/(td|th)\s*>/gi, ' | ')
+      .replace(/<\/tr\s*>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(new RegExp(`</?(${BLOCK_ELEMENTS})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+
+  const lines = text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').replace(/( \|)+ ?$/, '').trim())
+  const body = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+
+  return title && !body.startsWith(title) ? `${title}\n\n${body}` : body
+}
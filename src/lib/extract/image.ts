@@ -0,0 +1,31 @@
+import UTIF from 'utif'
+import { joinPages } from '@/lib/extract/pages'
+import { context2d, createCanvas } from '@/lib/ocr/canvas'
+import { recognizeText } from '@/lib/ocr/tesseract'
+
+// PNG and JPEG scans, which Tesseract decodes itself
+export async function extractImage(data: Uint8Array, onProgress?: (percent: number) => void) {
+  const text = await recognizeText(new Blob([data]), fraction => onProgress?.(fraction * 100))
+  return text.trim()
+}
+
+/**
+ * TIFF scans, often several pages to a file. Browsers cannot decode TIFF,
+ * so each page is decoded here and drawn onto a canvas for OCR.
+ */
+export async function extractTiff(data: Uint8Array, onProgress?: (percent: number) => void) {
+  const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer
+  const pages = UTIF.decode(buffer)
+
+  const texts: string[] = []
+  for (const [index, ifd] of pages.entries()) {
+    UTIF.decodeImage(buffer, ifd)
+    if (!ifd.width || !ifd.height) continue
+
+    const canvas = createCanvas(ifd.width, ifd.height)
+    const rgba = UTIF.toRGBA8(ifd)
+    context2d(canvas)?.putImageData(new ImageData(new Uint8ClampedArray(rgba), ifd.width, ifd.height), 0, 0)
+    texts.push(await recognizeText(canvas, fraction => onProgress?.(((index + fraction) / pages.length) * 100)))
+  }
+  return texts.length > 1 ? joinPages(texts) : (texts[0] ?? '').trim()
+}
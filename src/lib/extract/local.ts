@@ -0,0 +1,51 @@
+import { csvToText } from '@/lib/extract/csv'
+import { extractEml, type EmailAttachment } from '@/lib/extract/eml'
+import { htmlToText } from '@/lib/extract/html'
+import { extractImage, extractTiff } from '@/lib/extract/image'
+import { extractPdf } from '@/lib/extract/pdf'
+import { extractPptx } from '@/lib/extract/pptx'
+import { extractXlsx } from '@/lib/extract/xlsx'
+import { SNIFF_LENGTH, sniffContent, type TextEncoding } from '@/lib/formats/detect'
+import { formatForExtension, type FileFormat } from '@/lib/formats/registry'
+
+export interface ExtractOptions {
+  // Encoding of text formats, as detected on upload
+  encoding?: TextEncoding
+  // Percentage done, for formats that take long (OCR)
+  onProgress?: (percent: number) => void
+}
+
+type LocalExtractor = (data: Uint8Array, options: ExtractOptions) => Promise<string>
+
+const decode = (data: Uint8Array, { encoding = 'utf-8' }: ExtractOptions) => new TextDecoder(encoding).decode(data)
+
+// Extractors for the formats the registry marks for local extraction
+const LOCAL_EXTRACTORS: Record<string, LocalExtractor> = {
+  pdf: (data, { onProgress }) => extractPdf(data, onProgress),
+  txt: async (data, options) => decode(data, options),
+  md: async (data, options) => decode(data, options),
+  html: async (data, options) => htmlToText(decode(data, options)),
+  csv: async (data, options) => csvToText(decode(data, options)),
+  xlsx: data => extractXlsx(data),
+  pptx: data => extractPptx(data),
+  eml: data => extractEml(data, extractAttachment),
+  png: (data, { onProgress }) => extractImage(data, onProgress),
+  jpeg: (data, { onProgress }) => extractImage(data, onProgress),
+  tiff: (data, { onProgress }) => extractTiff(data, onProgress)
+}
+
+export function extractLocally(format: FileFormat, data: Uint8Array, options: ExtractOptions = {}) {
+  const extractor = LOCAL_EXTRACTORS[format.id]
+  if (!extractor) throw new Error(`${format.label} files cannot be extracted in the browser`)
+  return extractor(data, options)
+}
+
+// Email attachments get the same content check as uploads before extraction
+async function extractAttachment({ name, data }: EmailAttachment) {
+  const format = formatForExtension(name)
+  if (!format || format.extraction !== 'local') return null
+
+  const sniffed = sniffContent(data.subarray(0, SNIFF_LENGTH))
+  if (sniffed.kind !== format.content) return null
+  return extractLocally(format, data, { encoding: sniffed.kind === 'text' ? sniffed.encoding : undefined })
+}
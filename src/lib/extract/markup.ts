@@ -0,0 +1,65 @@
+/**
+ * Small helpers for pulling text out of HTML and Office XML without a DOM,
+ * so extraction also runs where `DOMParser` is unavailable.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  deg: '°'
+}
+
+export function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+    const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+  })
+}
+
+export interface XmlElement {
+  attributes: string
+  inner: string
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Every `tag` element in `xml`, by qualified name (e.g. `a:t`). Elements of
+ * the same name must not nest, which holds for the Office parts read here.
+ */
+export function xmlElements(xml: string, tag: string): XmlElement[] {
+  const name = escapeRegExp(tag)
+  const pattern = new RegExp(`<${name}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${name}>)`, 'g')
+  return [...xml.matchAll(pattern)].map(match => ({ attributes: match[1] ?? '', inner: match[2] ?? '' }))
+}
+
+export function xmlAttribute(attributes: string, name: string) {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${escapeRegExp(name)}="([^"]*)"`))
+  return match ? decodeEntities(match[1]) : undefined
+}
+
+// Concatenated content of the `tag` elements, e.g. the runs of a paragraph
+export function xmlText(xml: string, tag: string) {
+  return xmlElements(xml, tag).map(element => decodeEntities(element.inner)).join('')
+}
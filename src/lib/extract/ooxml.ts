@@ -0,0 +1,45 @@
+import { strFromU8 } from 'fflate'
+import { xmlAttribute, xmlElements } from '@/lib/extract/markup'
+import { unzipAsync } from '@/lib/upload/zip'
+
+// The XML parts of an Office Open XML package, by path inside the archive
+export type OfficePackage = Map<string, string>
+
+export async function readPackage(data: Uint8Array, include: (path: string) => boolean): Promise<OfficePackage> {
+  const entries = await unzipAsync(data, info => info.name.endsWith('.xml') || info.name.endsWith('.rels') ? include(info.name) : false)
+  return new Map(Object.entries(entries).map(([path, bytes]) => [path, strFromU8(bytes)]))
+}
+
+// Resolve a relationship target against the folder of the part it belongs to
+export function resolvePart(fromPart: string, target: string) {
+  if (target.startsWith('/')) return target.slice(1)
+
+  const segments = fromPart.split('/').slice(0, -1)
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop()
+    else if (segment !== '.') segments.push(segment)
+  }
+  return segments.join('/')
+}
+
+function relationshipsPath(part: string) {
+  const slash = part.lastIndexOf('/')
+  return `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`
+}
+
+/**
+ * The relationships of `part`, mapping each relationship id to the path of
+ * the part it points to. `type` keeps only relationships whose type ends
+ * with it, such as `/notesSlide`.
+ */
+export function relationships(pkg: OfficePackage, part: string, type?: string) {
+  const targets = new Map<string, string>()
+  for (const { attributes } of xmlElements(pkg.get(relationshipsPath(part)) ?? '', 'Relationship')) {
+    const id = xmlAttribute(attributes, 'Id')
+    const target = xmlAttribute(attributes, 'Target')
+    if (!id || !target || xmlAttribute(attributes, 'TargetMode') === 'External') continue
+    if (type && !xmlAttribute(attributes, 'Type')?.endsWith(type)) continue
+    targets.set(id, resolvePart(part, target))
+  }
+  return targets
+}
@@ -0,0 +1,25 @@
+/**
+ * Text extracted page by page (PDFs and multi-page scans) is stored with a
+ * `[Page N]` line before each page, so passages and citations can be traced
+ * back to the page they came from.
+ */
+
+const PAGE_MARKER = /^\[Page (\d+)\]$/gm
+
+export function pageMarker(page: number) {
+  return `[Page ${page}]`
+}
+
+export function joinPages(pages: string[]) {
+  return pages.map((text, index) => `${pageMarker(index + 1)}\n\n${text.trim()}`.trim()).join('\n\n')
+}
+
+// Page the text at `offset` is on, if the content has page markers
+export function pageAtOffset(content: string, offset: number): number | undefined {
+  let page: number | undefined
+  for (const match of content.matchAll(PAGE_MARKER)) {
+    if (match.index > offset) break
+    page = Number(match[1])
+  }
+  return page
+}
@@ -0,0 +1,57 @@
+import { joinPages } from '@/lib/extract/pages'
+import { context2d, createCanvas } from '@/lib/ocr/canvas'
+import { recognizeText } from '@/lib/ocr/tesseract'
+import { loadPdf, type PDFPageProxy } from '@/lib/pdfjs'
+
+// Pages with less text than this in their text layer are treated as scans
+const MIN_TEXT_LAYER = 20
+// About 180 DPI, enough for Tesseract to read body text reliably
+const OCR_SCALE = 2.5
+
+async function textLayer(page: PDFPageProxy) {
+  const content = await page.getTextContent()
+  return content.items
+    .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+    .join('')
+    .replace(/ {2,}/g, ' ')
+}
+
+async function renderForOcr(page: PDFPageProxy) {
+  const viewport = page.getViewport({ scale: OCR_SCALE })
+  const canvas = createCanvas(viewport.width, viewport.height)
+  if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+    // pdf.js draws on offscreen canvases through their context
+    const canvasContext = context2d(canvas) as CanvasRenderingContext2D
+    await page.render({ canvas: null, canvasContext, viewport }).promise
+  } else {
+    await page.render({ canvas: canvas as HTMLCanvasElement, viewport }).promise
+  }
+  return canvas
+}
+
+/**
+ * Text of every page of a PDF, with page markers. Pages without a usable
+ * text layer, as in scanned documents, are rendered and run through OCR.
+ * `onProgress` gets the percentage of pages done.
+ */
+export async function extractPdf(data: Uint8Array, onProgress?: (percent: number) => void) {
+  const pdf = await loadPdf(data)
+  try {
+    const pages: string[] = []
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number)
+      const pageProgress = (fraction: number) => onProgress?.(((number - 1 + fraction) / pdf.numPages) * 100)
+
+      let text = await textLayer(page)
+      if (text.replace(/\s/g, '').length < MIN_TEXT_LAYER) {
+        text = await recognizeText(await renderForOcr(page), pageProgress)
+      }
+      pages.push(text)
+      page.cleanup()
+      pageProgress(1)
+    }
+    return joinPages(pages)
+  } finally {
+    await pdf.destroy()
+  }
+}
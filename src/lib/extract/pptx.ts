@@ -0,0 +1,39 @@
+import { xmlAttribute, xmlElements, xmlText } from '@/lib/extract/markup'
+import { readPackage, relationships } from '@/lib/extract/ooxml'
+
+const PRESENTATION = 'ppt/presentation.xml'
+
+// Text paragraphs of a slide or notes page, line breaks inside them kept
+function paragraphs(xml: string) {
+  return xmlElements(xml, 'a:p')
+    .map(({ inner }) => xmlText(inner.replace(/<a:br\b[^>]*\/>/g, '<a:t>\n</a:t>'), 'a:t').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Text of each slide in presentation order (not the order of the files in
+ * the package), followed by its speaker notes.
+ */
+export async function extractPptx(data: Uint8Array) {
+  const pkg = await readPackage(data, path => path.startsWith('ppt/'))
+  const slideParts = relationships(pkg, PRESENTATION)
+
+  const slides = xmlElements(pkg.get(PRESENTATION) ?? '', 'p:sldId').flatMap(({ attributes }) => {
+    const part = slideParts.get(xmlAttribute(attributes, 'r:id') ?? '')
+    return part && pkg.has(part) ? [part] : []
+  })
+
+  return slides
+    .map((part, index) => {
+      const number = index + 1
+      const sections = [`Slide ${number}`, ...paragraphs(pkg.get(part) ?? '')]
+
+      const [notesPart] = relationships(pkg, part, '/notesSlide').values()
+      // Notes pages repeat the slide number in a placeholder
+      const notes = paragraphs(pkg.get(notesPart ?? '') ?? '').filter(text => text !== String(number))
+      if (notes.length > 0) sections.push(`Notes: ${notes.join('\n')}`)
+
+      return sections.join('\n\n')
+    })
+    .join('\n\n')
+}
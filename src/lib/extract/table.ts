@@ -0,0 +1,47 @@
+// Up to this many rows are scanned to decide whether the first one is a header
+const HEADER_SAMPLE = 20
+
+const isNumeric = (value: string) => value !== '' && !isNaN(Number(value.replace(/[,%$€£]/g, '')))
+
+/**
+ * Treat the first row as column names when it is all text and some column
+ * below it holds numbers, or when it is the only row with every cell filled.
+ */
+function hasHeader(rows: string[][]) {
+  const [first, ...rest] = rows
+  const cells = first.filter(Boolean)
+  if (cells.length === 0 || cells.some(isNumeric) || rest.length === 0) return false
+
+  const sample = rest.slice(0, HEADER_SAMPLE)
+  const numericColumn = first.some((_, column) => sample.some(row => isNumeric(row[column] ?? '')))
+  const uniqueNames = new Set(cells).size === cells.length
+  return uniqueNames && (numericColumn || cells.length === first.length)
+}
+
+/**
+ * Lay out table rows as searchable text. Each row becomes its own paragraph
+ * labelled with its row number, and cells are prefixed with their column
+ * name when the table has a header, so a passage cut from the middle of the
+ * table still says what its values are.
+ */
+export function tableToText(rows: string[][], title?: string) {
+  const filled = rows
+    .map((row, index) => ({ number: index + 1, cells: row.map(cell => cell.replace(/\s+/g, ' ').trim()) }))
+    .filter(row => row.cells.some(Boolean))
+  if (filled.length === 0) return ''
+
+  const header = hasHeader(filled.map(row => row.cells)) ? filled[0].cells : null
+  const body = header ? filled.slice(1) : filled
+
+  const paragraphs = body.map(({ number, cells }) => {
+    const values = cells.flatMap((cell, column) => {
+      if (!cell) return []
+      return header?.[column] ? [`${header[column]}: ${cell}`] : [cell]
+    })
+    return `Row ${number} — ${values.join(' | ')}`
+  })
+
+  if (header) paragraphs.unshift(`Columns: ${header.filter(Boolean).join(' | ')}`)
+  if (title) paragraphs.unshift(title)
+  return paragraphs.join('\n\n')
+}
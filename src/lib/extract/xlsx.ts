@@ -0,0 +1,62 @@
+import { decodeEntities, xmlAttribute, xmlElements, xmlText } from '@/lib/extract/markup'
+import { readPackage, relationships, type OfficePackage } from '@/lib/extract/ooxml'
+import { tableToText } from '@/lib/extract/table'
+
+const WORKBOOK = 'xl/workbook.xml'
+
+function sharedStrings(pkg: OfficePackage) {
+  const xml = pkg.get('xl/sharedStrings.xml') ?? ''
+  // Phonetic guides repeat the string in another script
+  return xmlElements(xml, 'si').map(({ inner }) => xmlText(inner.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't'))
+}
+
+// Zero-based column of a cell reference such as `AB12`
+function columnIndex(reference: string) {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? ''
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function cellValue(attributes: string, inner: string, strings: string[]) {
+  const type = xmlAttribute(attributes, 't')
+  if (type === 'inlineStr') return xmlText(inner, 't')
+
+  const value = decodeEntities(xmlElements(inner, 'v')[0]?.inner ?? '')
+  if (type === 's') return strings[Number(value)] ?? ''
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE'
+  return value
+}
+
+function sheetRows(xml: string, strings: string[]) {
+  const rows: string[][] = []
+  xmlElements(xml, 'row').forEach(({ attributes, inner }, position) => {
+    const cells: string[] = []
+    xmlElements(inner, 'c').forEach(({ attributes: cellAttributes, inner: cellInner }, column) => {
+      const reference = xmlAttribute(cellAttributes, 'r')
+      cells[reference ? columnIndex(reference) : column] = cellValue(cellAttributes, cellInner, strings)
+    })
+    // Keep Excel's row numbers so extracted rows can be found in the sheet
+    const number = Number(xmlAttribute(attributes, 'r')) || position + 1
+    rows[number - 1] = Array.from(cells, cell => cell ?? '')
+  })
+  return rows
+}
+
+/**
+ * Text of every worksheet in workbook order, each laid out as a table under
+ * its sheet name. Formulas contribute their last computed value.
+ */
+export async function extractXlsx(data: Uint8Array) {
+  const pkg = await readPackage(data, path => path.startsWith('xl/'))
+  const sheetParts = relationships(pkg, WORKBOOK)
+  const strings = sharedStrings(pkg)
+
+  return xmlElements(pkg.get(WORKBOOK) ?? '', 'sheet')
+    .map(({ attributes }) => {
+      const part = sheetParts.get(xmlAttribute(attributes, 'r:id') ?? '')
+      const xml = part ? pkg.get(part) : undefined
+      if (!xml) return ''
+      return tableToText(sheetRows(xml, strings), `Sheet: ${xmlAttribute(attributes, 'name') ?? part}`)
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
@@ -0,0 +1,101 @@
+import { strToU8, zipSync } from 'fflate'
+import { describe, expect, it } from 'vitest'
+import { detectFileType, officePackageOf, reconcileType, sniffContent } from '@/lib/formats/detect'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+const WORKBOOK_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+const DOCUMENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+function contentTypes(mainType: string) {
+  return `<?xml version="1.0"?><Types><Default Extension="xml" ContentType="application/xml"/><Override PartName="/main.xml" ContentType="${mainType}"/></Types>`
+}
+
+// An Office package holding just its `[Content_Types].xml`
+function officePackage(name: string, mainType: string, type = '') {
+  const zip = zipSync({ '[Content_Types].xml': strToU8(contentTypes(mainType)) })
+  return new File([zip], name, { type })
+}
+
+// A DOS stub pointing at a PE header at 0x80, as Windows linkers write it
+function portableExecutable() {
+  const bytes = new Uint8Array(0x100)
+  bytes.set([0x4d, 0x5a])
+  new DataView(bytes.buffer).setUint32(0x3c, 0x80, true)
+  bytes.set([0x50, 0x45, 0x00, 0x00], 0x80)
+  return bytes
+}
+
+describe('sniffContent', () => {
+  it('reads text that starts with "MZ" as text', () => {
+    expect(sniffContent(encode('MZ,Mazda,1998\nMX,Mexico,2001\n'))).toEqual({ kind: 'text', encoding: 'utf-8' })
+  })
+
+  it('recognizes Windows programs by their PE header', () => {
+    expect(sniffContent(portableExecutable())).toEqual({ kind: 'executable' })
+  })
+
+  it('prefers a signature at the start over a later PDF marker', () => {
+    const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04, ...encode('report.pdf %PDF-1.7')])
+    expect(sniffContent(zip)).toEqual({ kind: 'zip' })
+  })
+
+  it('keeps text that mentions a PDF marker as text', () => {
+    expect(sniffContent(encode('Files begin with %PDF-1.7 and end with %%EOF'))).toEqual({ kind: 'text', encoding: 'utf-8' })
+  })
+
+  it('finds a PDF marker after a few bytes of binary junk', () => {
+    const pdf = new Uint8Array([0x00, 0x01, 0x02, 0x03, ...encode('%PDF-1.4\n')])
+    expect(sniffContent(pdf)).toEqual({ kind: 'pdf' })
+  })
+})
+
+describe('reconcileType', () => {
+  it('accepts a CSV file that starts with "MZ"', () => {
+    const result = reconcileType('codes.csv', 'text/csv', encode('MZ,Mazda\n'))
+    expect(result).toMatchObject({ encoding: 'utf-8', mimeType: 'text/csv' })
+  })
+
+  it('rejects a program renamed to .txt', () => {
+    expect(reconcileType('notes.txt', 'text/plain', portableExecutable())).toMatch(/is a program/)
+  })
+
+  it('rejects a declared type that names another format', () => {
+    expect(reconcileType('scan.pdf', 'image/png', encode('%PDF-1.7\n'))).toBe('Declared type image/png does not match the .pdf extension')
+  })
+
+  it('accepts plain text declared for another text format', () => {
+    const result = reconcileType('notes.md', 'text/plain', encode('# Notes\n'))
+    expect(result).toMatchObject({ mimeType: 'text/markdown' })
+  })
+
+  it('stores the format type in place of an unknown declared type', () => {
+    const result = reconcileType('report.pdf', 'application/octet-stream', encode('%PDF-1.7\n'))
+    expect(result).toMatchObject({ mimeType: 'application/pdf' })
+  })
+})
+
+describe('officePackageOf', () => {
+  it('goes by the main part, not embedded workbooks', () => {
+    const types = contentTypes(`${DOCUMENT_TYPE}.main+xml`).replace('<Default', `<Default Extension="xlsx" ContentType="${WORKBOOK_TYPE}"/><Default`)
+    expect(officePackageOf(types)?.formatId).toBe('docx')
+  })
+})
+
+describe('detectFileType', () => {
+  it('accepts a workbook named .xlsx', async () => {
+    const result = await detectFileType(officePackage('figures.xlsx', `${WORKBOOK_TYPE}.main+xml`, WORKBOOK_TYPE))
+    expect(result).toMatchObject({ mimeType: WORKBOOK_TYPE })
+  })
+
+  it('rejects a workbook renamed to .docx', async () => {
+    const result = await detectFileType(officePackage('figures.docx', `${WORKBOOK_TYPE}.main+xml`))
+    expect(result).toBe('File content does not match its extension: expected a Word document, found an Excel workbook')
+  })
+
+  it('rejects a ZIP archive renamed to .pptx', async () => {
+    const zip = zipSync({ 'notes.txt': strToU8('notes') })
+    const result = await detectFileType(new File([zip], 'slides.pptx'))
+    expect(result).toMatch(/not an Office document/)
+  })
+})
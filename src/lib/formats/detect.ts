@@ -0,0 +1,226 @@
+import { strFromU8 } from 'fflate'
+import { xmlAttribute, xmlElements } from '@/lib/extract/markup'
+import { formatForExtension, formatForMimeType, type ContentKind, type FileFormat } from '@/lib/formats/registry'
+import { unzipAsync } from '@/lib/upload/zip'
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+// What the first bytes of a file turned out to be
+export type SniffedContent =
+  | { kind: Exclude<ContentKind, 'text'> }
+  | { kind: 'text'; encoding: TextEncoding }
+  | { kind: 'executable' }
+  | { kind: 'binary' }
+
+export interface DetectedType {
+  format: FileFormat
+  // Type stored with the document
+  mimeType: string
+  // Set for plain text formats
+  encoding?: TextEncoding
+}
+
+// Enough for every signature below and a fair sample of text
+export const SNIFF_LENGTH = 4096
+
+const SIGNATURES: { kind: SniffedContent['kind']; bytes: number[] }[] = [
+  { kind: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { kind: 'zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { kind: 'ole', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  // {\rtf
+  { kind: 'rtf', bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66] },
+  { kind: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { kind: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  // Little- and big-endian TIFF
+  { kind: 'tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { kind: 'tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  // ELF and Mach-O binaries; Windows programs are checked by `isPortableExecutable`
+  { kind: 'executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { kind: 'executable', bytes: [0xfe, 0xed, 0xfa, 0xce] },
+  { kind: 'executable', bytes: [0xfe, 0xed, 0xfa, 0xcf] },
+  { kind: 'executable', bytes: [0xce, 0xfa, 0xed, 0xfe] },
+  { kind: 'executable', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { kind: 'executable', bytes: [0xca, 0xfe, 0xba, 0xbe] }
+]
+
+const PDF_MARKER = [0x25, 0x50, 0x44, 0x46, 0x2d] // %PDF-
+// Readers accept the marker anywhere in the first kilobyte
+const PDF_MARKER_WINDOW = 1024
+
+const DOS_HEADER = [0x4d, 0x5a] // MZ
+const PE_HEADER = [0x50, 0x45, 0x00, 0x00] // PE\0\0
+// Where the DOS header stores the offset of the PE header
+const PE_OFFSET_FIELD = 0x3c
+
+const CONTENT_NAMES: Record<SniffedContent['kind'], string> = {
+  pdf: 'a PDF',
+  ole: 'a legacy Office file',
+  zip: 'a ZIP-based file',
+  rtf: 'an RTF file',
+  text: 'plain text',
+  png: 'a PNG image',
+  jpeg: 'a JPEG image',
+  tiff: 'a TIFF image',
+  executable: 'a program',
+  binary: 'binary data'
+}
+
+// Office Open XML packages all sniff as ZIP; the content type of the main
+// part, listed in `[Content_Types].xml`, tells them apart
+const OFFICE_PACKAGES: { formatId: string; name: string; mainType: RegExp }[] = [
+  { formatId: 'docx', name: 'a Word document', mainType: /(wordprocessingml|ms-word)\.[\w.]+\.main\+xml$/i },
+  { formatId: 'xlsx', name: 'an Excel workbook', mainType: /(spreadsheetml|ms-excel)\.[\w.]+\.main\+xml$/i },
+  { formatId: 'pptx', name: 'a PowerPoint presentation', mainType: /(presentationml|ms-powerpoint)\.[\w.]+\.main\+xml$/i }
+]
+
+const CONTENT_TYPES_PART = '[Content_Types].xml'
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+// "MZ" alone starts plenty of text files, so follow the DOS header to the
+// PE header that every Windows program has
+function isPortableExecutable(bytes: Uint8Array) {
+  if (!startsWith(bytes, DOS_HEADER) || bytes.length < PE_OFFSET_FIELD + 4) return false
+  const offset = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(PE_OFFSET_FIELD, true)
+  return offset + PE_HEADER.length <= bytes.length && startsWith(bytes, PE_HEADER, offset)
+}
+
+function hasPdfMarker(bytes: Uint8Array) {
+  const end = Math.min(bytes.length, PDF_MARKER_WINDOW) - PDF_MARKER.length
+  for (let offset = 0; offset <= end; offset++) {
+    if (startsWith(bytes, PDF_MARKER, offset)) return true
+  }
+  return false
+}
+
+function isValidUtf8(bytes: Uint8Array) {
+  try {
+    // `stream` tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Control characters other than tab, line breaks and form feed
+function controlCharacterRatio(bytes: Uint8Array) {
+  let count = 0
+  for (const byte of bytes) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) count++
+  }
+  return bytes.length === 0 ? 0 : count / bytes.length
+}
+
+// UTF-16 without a byte order mark: ASCII text has every other byte zero
+function utf16Order(bytes: Uint8Array): TextEncoding | null {
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) continue
+    if (i % 2 === 0) evenZeros++
+    else oddZeros++
+  }
+  const half = bytes.length / 2
+  if (oddZeros > half * 0.9 && evenZeros < half * 0.1) return 'utf-16le'
+  if (evenZeros > half * 0.9 && oddZeros < half * 0.1) return 'utf-16be'
+  return null
+}
+
+function sniffText(bytes: Uint8Array): SniffedContent {
+  if (startsWith(bytes, [0xef, 0xbb, 0xbf])) return { kind: 'text', encoding: 'utf-8' }
+  if (startsWith(bytes, [0xff, 0xfe])) return { kind: 'text', encoding: 'utf-16le' }
+  if (startsWith(bytes, [0xfe, 0xff])) return { kind: 'text', encoding: 'utf-16be' }
+
+  if (bytes.includes(0)) {
+    const encoding = utf16Order(bytes)
+    return encoding ? { kind: 'text', encoding } : { kind: 'binary' }
+  }
+
+  if (controlCharacterRatio(bytes) > 0.05) return { kind: 'binary' }
+  return { kind: 'text', encoding: isValidUtf8(bytes) ? 'utf-8' : 'windows-1252' }
+}
+
+/**
+ * Identify a file from its first bytes, ignoring its name and declared
+ * type. Anything without a known signature is checked for being text. A
+ * PDF marker after junk bytes only counts for content that is not text,
+ * so a text file that mentions "%PDF-" stays text.
+ */
+export function sniffContent(bytes: Uint8Array): SniffedContent {
+  if (startsWith(bytes, PDF_MARKER)) return { kind: 'pdf' }
+  if (isPortableExecutable(bytes)) return { kind: 'executable' }
+
+  const match = SIGNATURES.find(signature => startsWith(bytes, signature.bytes))
+  if (match) return { kind: match.kind } as SniffedContent
+
+  const sniffed = sniffText(bytes)
+  return sniffed.kind !== 'text' && hasPdfMarker(bytes) ? { kind: 'pdf' } : sniffed
+}
+
+// Text formats are often declared as plain text, so any text type will do
+// for one; otherwise a declared type must name the extension's format
+function declaredTypeAgrees(declared: FileFormat | undefined, format: FileFormat) {
+  return !declared || declared === format || (declared.content === 'text' && format.content === 'text')
+}
+
+/**
+ * Work out the type of an upload from its extension, declared MIME type and
+ * content. The extension picks the format and the content has to agree with
+ * it, as does a declared type that names a known format; an unknown or
+ * missing declared type is replaced with the format's own. Returns the
+ * reason the file was rejected as a string when they disagree.
+ */
+export function reconcileType(fileName: string, declaredType: string, bytes: Uint8Array): DetectedType | string {
+  const format = formatForExtension(fileName)
+  if (!format) return 'Unsupported file type'
+
+  const sniffed = sniffContent(bytes)
+  if (sniffed.kind === 'executable') {
+    return `This file is a program renamed to .${format.extensions[0]} and cannot be uploaded`
+  }
+  if (sniffed.kind !== format.content) {
+    return `File content does not match its extension: expected ${CONTENT_NAMES[format.content]}, found ${CONTENT_NAMES[sniffed.kind]}`
+  }
+
+  const declared = formatForMimeType(declaredType)
+  if (!declaredTypeAgrees(declared, format)) {
+    return `Declared type ${declaredType} does not match the .${format.extensions[0]} extension`
+  }
+
+  const mimeType = declared === format ? declaredType : format.mimeTypes[0]
+  return sniffed.kind === 'text' ? { format, mimeType, encoding: sniffed.encoding } : { format, mimeType }
+}
+
+/**
+ * Which Office package a `[Content_Types].xml` describes, going by the
+ * content type of its main part. Undefined when it names none of them.
+ */
+export function officePackageOf(contentTypes: string) {
+  const types = xmlElements(contentTypes, 'Override').map(({ attributes }) => xmlAttribute(attributes, 'ContentType') ?? '')
+  return OFFICE_PACKAGES.find(office => types.some(type => office.mainType.test(type)))
+}
+
+// A ZIP-based file has to be the Office package its extension names; an
+// .xlsx renamed to .docx sniffs as ZIP all the same
+async function checkPackage(file: File, format: FileFormat): Promise<string | null> {
+  const expected = OFFICE_PACKAGES.find(office => office.formatId === format.id)
+  if (!expected) return null
+
+  const data = new Uint8Array(await file.arrayBuffer())
+  const entries = await unzipAsync(data, info => info.name === CONTENT_TYPES_PART).catch(() => null)
+  const contentTypes = entries?.[CONTENT_TYPES_PART]
+  const found = contentTypes && officePackageOf(strFromU8(contentTypes))
+
+  if (found === expected) return null
+  return `File content does not match its extension: expected ${expected.name}, found ${found ? found.name : 'a ZIP file that is not an Office document'}`
+}
+
+export async function detectFileType(file: File): Promise<DetectedType | string> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer())
+  const detected = reconcileType(file.name, file.type, bytes)
+  if (typeof detected === 'string' || detected.format.content !== 'zip') return detected
+  return (await checkPackage(file, detected.format)) ?? detected
+}
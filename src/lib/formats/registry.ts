@@ -0,0 +1,186 @@
+/**
+ * The file formats documents can be uploaded as. Validation, the `accept`
+ * attribute of file inputs, type labels and icons are all derived from this
+ * list, so supporting a new format starts here.
+ */
+
+// What the first bytes of a file in this format look like
+export type ContentKind = 'pdf' | 'ole' | 'zip' | 'rtf' | 'text' | 'png' | 'jpeg' | 'tiff'
+
+export type FormatIcon = 'pdf' | 'word' | 'text' | 'markdown' | 'web' | 'spreadsheet' | 'slides' | 'email' | 'image'
+
+export interface FileFormat {
+  id: string
+  label: string
+  extensions: string[]
+  // The first entry is the type stored for documents in this format
+  mimeTypes: string[]
+  content: ContentKind
+  // Where the text is extracted: in the browser (a worker) or by the backend
+  extraction: 'local' | 'backend'
+  icon: FormatIcon
+}
+
+export const FILE_FORMATS: FileFormat[] = [
+  {
+    id: 'pdf',
+    label: 'PDF',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    content: 'pdf',
+    extraction: 'local',
+    icon: 'pdf'
+  },
+  {
+    id: 'doc',
+    label: 'Word',
+    extensions: ['doc'],
+    mimeTypes: ['application/msword'],
+    content: 'ole',
+    extraction: 'backend',
+    icon: 'word'
+  },
+  {
+    id: 'docx',
+    label: 'Word',
+    extensions: ['docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    content: 'zip',
+    extraction: 'backend',
+    icon: 'word'
+  },
+  {
+    id: 'rtf',
+    label: 'RTF',
+    extensions: ['rtf'],
+    mimeTypes: ['application/rtf', 'text/rtf'],
+    content: 'rtf',
+    extraction: 'backend',
+    icon: 'word'
+  },
+  {
+    id: 'txt',
+    label: 'Text',
+    extensions: ['txt'],
+    mimeTypes: ['text/plain'],
+    content: 'text',
+    extraction: 'local',
+    icon: 'text'
+  },
+  {
+    id: 'md',
+    label: 'Markdown',
+    extensions: ['md', 'markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    content: 'text',
+    extraction: 'local',
+    icon: 'markdown'
+  },
+  {
+    id: 'html',
+    label: 'Web page',
+    extensions: ['html', 'htm'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    content: 'text',
+    extraction: 'local',
+    icon: 'web'
+  },
+  {
+    id: 'csv',
+    label: 'CSV',
+    extensions: ['csv'],
+    mimeTypes: ['text/csv'],
+    content: 'text',
+    extraction: 'local',
+    icon: 'spreadsheet'
+  },
+  {
+    id: 'xlsx',
+    label: 'Excel',
+    extensions: ['xlsx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    content: 'zip',
+    extraction: 'local',
+    icon: 'spreadsheet'
+  },
+  {
+    id: 'pptx',
+    label: 'PowerPoint',
+    extensions: ['pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    content: 'zip',
+    extraction: 'local',
+    icon: 'slides'
+  },
+  {
+    id: 'eml',
+    label: 'Email',
+    extensions: ['eml'],
+    mimeTypes: ['message/rfc822'],
+    content: 'text',
+    extraction: 'local',
+    icon: 'email'
+  },
+  // Scans, read with OCR
+  {
+    id: 'png',
+    label: 'PNG image',
+    extensions: ['png'],
+    mimeTypes: ['image/png'],
+    content: 'png',
+    extraction: 'local',
+    icon: 'image'
+  },
+  {
+    id: 'jpeg',
+    label: 'JPEG image',
+    extensions: ['jpg', 'jpeg'],
+    mimeTypes: ['image/jpeg'],
+    content: 'jpeg',
+    extraction: 'local',
+    icon: 'image'
+  },
+  {
+    id: 'tiff',
+    label: 'TIFF image',
+    extensions: ['tif', 'tiff'],
+    mimeTypes: ['image/tiff'],
+    content: 'tiff',
+    extraction: 'local',
+    icon: 'image'
+  }
+]
+
+export const SUPPORTED_EXTENSIONS = FILE_FORMATS.flatMap(format => format.extensions)
+
+// Value for the `accept` attribute of file inputs
+export const ACCEPTED_FILES = SUPPORTED_EXTENSIONS.map(extension => `.${extension}`).join(',')
+
+export function fileExtension(fileName: string) {
+  const dot = fileName.lastIndexOf('.')
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase()
+}
+
+export function formatForExtension(fileName: string) {
+  const extension = fileExtension(fileName)
+  return FILE_FORMATS.find(format => format.extensions.includes(extension))
+}
+
+export function formatForMimeType(mimeType: string) {
+  const type = mimeType.toLowerCase().split(';')[0].trim()
+  return FILE_FORMATS.find(format => format.mimeTypes.includes(type))
+}
+
+/**
+ * The format of a stored document. The stored type wins since it was
+ * checked against the content on upload; older documents fall back to
+ * their extension.
+ */
+export function formatOf(document: { name: string; fileType: string }) {
+  return formatForMimeType(document.fileType) ?? formatForExtension(document.name)
+}
+
+// Type for files that come without one, such as entries unpacked from a ZIP
+export function mimeTypeFor(fileName: string) {
+  return formatForExtension(fileName)?.mimeTypes[0] ?? ''
+}
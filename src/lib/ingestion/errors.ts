@@ -0,0 +1,31 @@
+import type { IngestionStageName } from '@/lib/ingestion/types'
+
+/**
+ * A failure in one stage of the ingestion pipeline. `stage` tells callers
+ * whether retrying can help: validation failures will fail again, while
+ * storage and indexing failures are often transient.
+ */
+export class IngestionError extends Error {
+  stage: IngestionStageName
+  // The underlying error, when this wraps one thrown by a service
+  cause?: unknown
+
+  constructor(stage: IngestionStageName, message: string, cause?: unknown) {
+    super(message)
+    this.name = 'IngestionError'
+    this.stage = stage
+    this.cause = cause
+  }
+}
+
+// The file itself is not acceptable; uploading it again will not help
+export class FileRejectedError extends IngestionError {
+  constructor(stage: IngestionStageName, message: string) {
+    super(stage, message)
+    this.name = 'FileRejectedError'
+  }
+}
+
+export function isRetryable(error: unknown) {
+  return !(error instanceof FileRejectedError)
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalDataServices } from '@/lib/data/local'
+import { FileRejectedError, IngestionError, isRetryable } from '@/lib/ingestion/errors'
+import { ingestFile } from '@/lib/ingestion/pipeline'
+import { createIngestionServices } from '@/lib/ingestion/services'
+import type { IngestionServices, IngestionStageName } from '@/lib/ingestion/types'
+
+const target = { projectId: 'project-1', visibility: 'team' as const, uploadedBy: 'user-1' }
+
+function picked(name: string, content: BlobPart) {
+  return { file: new File([content], name, { type: 'text/plain' }), path: name }
+}
+
+// The local backend stands in for storage; text is read directly since tests
+// have no workers to extract or index in
+function setup(overrides: Partial<IngestionServices> = {}) {
+  const data = createLocalDataServices()
+  const indexed: string[] = []
+  const services: IngestionServices = {
+    ...createIngestionServices(data),
+    extractor: { extract: file => file.text() },
+    indexer: {
+      async index(document) {
+        indexed.push(document.id)
+      }
+    },
+    ...overrides
+  }
+  const stored = () => data.documents.list({ uploadedBy: target.uploadedBy, teamProjectIds: [] })
+  return { data, services, indexed, stored }
+}
+
+const failingIndexer = {
+  async index() {
+    throw new Error('Index unavailable')
+  }
+}
+
+describe('ingestFile', () => {
+  it('runs every stage in order and stores the normalized text', async () => {
+    const { services, indexed, stored } = setup()
+    const stages: IngestionStageName[] = []
+
+    const result = await ingestFile(picked('notes.txt', 'Hello  \r\nworld\n\n\n\nBye'), target, services, {
+      onStage: stage => stages.push(stage)
+    })
+
+    expect(stages).toEqual(['validate', 'detectType', 'extract', 'normalize', 'store', 'index'])
+    expect(result.isNewVersion).toBe(false)
+    expect(result.document.content).toBe('Hello\nworld\n\nBye')
+    expect(result.document.fileType).toBe('text/plain')
+    expect(indexed).toEqual([result.document.id])
+    expect(await stored()).toHaveLength(1)
+  })
+
+  it('adds a new version when given an existing document', async () => {
+    const { data, services } = setup()
+    const first = await ingestFile(picked('notes.txt', 'One'), target, services)
+
+    const second = await ingestFile(picked('notes.txt', 'Two'), target, services, { existing: first.document })
+
+    expect(second.isNewVersion).toBe(true)
+    expect(second.document.id).toBe(first.document.id)
+    expect(second.document.version).toBe(2)
+    expect((await data.documents.listVersions([first.document.id])).map(version => version.version)).toEqual([2, 1])
+  })
+
+  it('rejects an empty file in the validate stage', async () => {
+    const { services, stored } = setup()
+
+    const error = await ingestFile(picked('empty.txt', ''), target, services).catch(error => error)
+
+    expect(error).toBeInstanceOf(FileRejectedError)
+    expect(error.stage).toBe('validate')
+    expect(isRetryable(error)).toBe(false)
+    expect(await stored()).toHaveLength(0)
+  })
+
+  it('rejects a program renamed to a text file in the detectType stage', async () => {
+    const { services } = setup()
+    const elf = new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00])
+
+    const error = await ingestFile(picked('readme.txt', elf), target, services).catch(error => error)
+
+    expect(error).toBeInstanceOf(FileRejectedError)
+    expect(error.stage).toBe('detectType')
+    expect(error.message).toMatch(/program/)
+  })
+
+  it('wraps service failures in an IngestionError naming the stage', async () => {
+    const cause = new Error('Extraction service is down')
+    const { services } = setup({ extractor: { extract: () => Promise.reject(cause) } })
+
+    const error = await ingestFile(picked('notes.txt', 'Hello'), target, services).catch(error => error)
+
+    expect(error).toBeInstanceOf(IngestionError)
+    expect(error).not.toBeInstanceOf(FileRejectedError)
+    expect(error.stage).toBe('extract')
+    expect(error.message).toBe('Extraction service is down')
+    expect(error.cause).toBe(cause)
+    expect(isRetryable(error)).toBe(true)
+  })
+
+  it('discards a newly stored document when indexing fails', async () => {
+    const { data, services, stored } = setup({ indexer: failingIndexer })
+    let storagePath: string | undefined
+    const store = services.store
+    services.store = {
+      ...store,
+      async create(input) {
+        const document = await store.create(input)
+        storagePath = document.storagePath
+        return document
+      }
+    }
+
+    const error = await ingestFile(picked('notes.txt', 'Hello'), target, services).catch(error => error)
+
+    expect(error).toBeInstanceOf(IngestionError)
+    expect(error.stage).toBe('index')
+    expect(await stored()).toHaveLength(0)
+    await expect(data.storage.downloadUrl(storagePath!)).rejects.toThrow(/No file stored/)
+  })
+
+  it('keeps a new version when indexing it fails', async () => {
+    const { data, services } = setup()
+    const first = await ingestFile(picked('notes.txt', 'One'), target, services)
+
+    const error = await ingestFile(picked('notes.txt', 'Two'), target, { ...services, indexer: failingIndexer }, {
+      existing: first.document
+    }).catch(error => error)
+
+    expect(error.stage).toBe('index')
+    expect(await data.documents.get(first.document.id)).toMatchObject({ version: 2, content: 'Two' })
+  })
+
+  it('cleans up when cancelled after storing', async () => {
+    const { services, indexed, stored } = setup()
+    const controller = new AbortController()
+
+    const error = await ingestFile(picked('notes.txt', 'Hello'), target, services, {
+      signal: controller.signal,
+      onStage: stage => stage === 'store' && queueMicrotask(() => controller.abort())
+    }).catch(error => error)
+
+    expect(error).toBeInstanceOf(DOMException)
+    expect(error.name).toBe('AbortError')
+    expect(indexed).toHaveLength(0)
+    expect(await stored()).toHaveLength(0)
+  })
+})
@@ -0,0 +1,66 @@
+import { IngestionError } from '@/lib/ingestion/errors'
+import { DEFAULT_STAGES } from '@/lib/ingestion/stages'
+import type {
+  IngestionCallbacks,
+  IngestionContext,
+  IngestionResult,
+  IngestionServices,
+  IngestionStage,
+  IngestionTarget
+} from '@/lib/ingestion/types'
+import type { PickedFile } from '@/lib/upload/files'
+import { isCancelled } from '@/lib/workers/pool'
+import type { Document } from '@/types'
+
+export interface IngestionOptions extends IngestionCallbacks {
+  // Document the file becomes a new version of
+  existing?: Document
+  stages?: IngestionStage[]
+}
+
+// Undo finished stages, latest first. The original failure is what the
+// caller needs to see, so failures here are only logged.
+async function cleanUp(stages: IngestionStage[], context: IngestionContext, services: IngestionServices) {
+  for (const stage of [...stages].reverse()) {
+    try {
+      await stage.cleanUp?.(context, services)
+    } catch (error) {
+      console.error(`Failed to clean up after the ${stage.name} stage:`, error)
+    }
+  }
+}
+
+/**
+ * Run a file through the ingestion stages in order. Whatever a stage throws
+ * reaches the caller as an `IngestionError` naming that stage, except the
+ * `AbortError` of a cancelled run. Either way the stages that had finished
+ * are cleaned up, so a failed upload leaves no half-stored document.
+ */
+export async function ingestFile(
+  { file, path }: PickedFile,
+  target: IngestionTarget,
+  services: IngestionServices,
+  options: IngestionOptions = {}
+): Promise<IngestionResult> {
+  const { existing, stages = DEFAULT_STAGES, onStage, onProgress, signal } = options
+  let context: IngestionContext = { file, path, target, existing, onProgress, signal }
+  const finished: IngestionStage[] = []
+
+  for (const stage of stages) {
+    try {
+      signal?.throwIfAborted()
+      onStage?.(stage.name)
+      context = await stage.run(context, services)
+      finished.push(stage)
+    } catch (error) {
+      await cleanUp(finished, context, services)
+      if (error instanceof IngestionError || isCancelled(error)) throw error
+      throw new IngestionError(stage.name, error instanceof Error ? error.message : 'Unknown error', error)
+    }
+  }
+
+  if (!context.document) {
+    throw new IngestionError('store', 'No document was stored')
+  }
+  return { document: context.document, isNewVersion: !!existing }
+}
@@ -0,0 +1,34 @@
+import type { DataServices } from '@/lib/data/types'
+import type { IngestionServices } from '@/lib/ingestion/types'
+import { replacePassages, savePassages } from '@/lib/search/passages'
+import { purgeDocument } from '@/lib/trash'
+import { addVersion, createDocument } from '@/lib/versions'
+import { runInWorker } from '@/lib/workers/tasks'
+
+/**
+ * Ingestion backed by the app's data services. Formats the browser cannot
+ * read are sent to the backend's text extraction.
+ */
+export function createIngestionServices(data: DataServices): IngestionServices {
+  return {
+    extractor: {
+      async extract(file, { format, encoding }, options) {
+        if (format.extraction === 'local') {
+          return runInWorker({ kind: 'extract', format, data: await file.arrayBuffer(), encoding }, options)
+        }
+        return data.ai.extractText(file)
+      }
+    },
+    store: {
+      create: input => createDocument(data, input),
+      addVersion: (document, input) => addVersion(data, document, input),
+      discard: document => purgeDocument(data, document)
+    },
+    indexer: {
+      async index(document, replace) {
+        if (replace) await replacePassages(data, document)
+        else await savePassages(data, document)
+      }
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { FileRejectedError, IngestionError } from '@/lib/ingestion/errors'
+import type { IngestionStage } from '@/lib/ingestion/types'
+import { folderOf } from '@/lib/upload/files'
+import { detectFileType } from '@/lib/formats/detect'
+import { rejectionReason } from '@/lib/upload/validation'
+
+/**
+ * Clean up extracted text: consistent line endings and Unicode form, no
+ * control characters or trailing spaces, and at most one blank line between
+ * paragraphs.
+ */
+export function normalizeText(text: string) {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+export const validateStage: IngestionStage = {
+  name: 'validate',
+  async run(context) {
+    const reason = rejectionReason(context.file.name, context.file.size)
+    if (reason) throw new FileRejectedError('validate', reason)
+    return context
+  }
+}
+
+export const detectTypeStage: IngestionStage = {
+  name: 'detectType',
+  async run(context) {
+    const detected = await detectFileType(context.file)
+    if (typeof detected === 'string') throw new FileRejectedError('detectType', detected)
+    return { ...context, detected }
+  }
+}
+
+export const extractStage: IngestionStage = {
+  name: 'extract',
+  async run(context, { extractor }) {
+    if (!context.detected) throw new IngestionError('extract', 'File type has not been detected')
+    const { file, detected, onProgress, signal } = context
+    return { ...context, text: await extractor.extract(file, detected, { onProgress, signal }) }
+  }
+}
+
+export const normalizeStage: IngestionStage = {
+  name: 'normalize',
+  async run(context) {
+    return { ...context, text: normalizeText(context.text ?? '') }
+  }
+}
+
+export const storeStage: IngestionStage = {
+  name: 'store',
+  async run(context, { store }) {
+    const { file, path, target, existing, detected, text = '', onProgress } = context
+    const input = { file, content: text, fileType: detected?.mimeType, uploadedBy: target.uploadedBy, onProgress }
+    const document = existing
+      ? await store.addVersion(existing, input)
+      : await store.create({ ...input, projectId: target.projectId, visibility: target.visibility, folder: folderOf(path) })
+    return { ...context, document }
+  },
+  // A new version stays: it is a complete upload and retrying re-indexes it
+  async cleanUp({ document, existing }, { store }) {
+    if (document && !existing) await store.discard(document)
+  }
+}
+
+export const indexStage: IngestionStage = {
+  name: 'index',
+  async run(context, { indexer }) {
+    if (context.document) await indexer.index(context.document, !!context.existing)
+    return context
+  }
+}
+
+export const DEFAULT_STAGES: IngestionStage[] = [
+  validateStage,
+  detectTypeStage,
+  extractStage,
+  normalizeStage,
+  storeStage,
+  indexStage
+]
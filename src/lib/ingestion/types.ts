@@ -0,0 +1,89 @@
+import type { DetectedType } from '@/lib/formats/detect'
+import type { NewDocumentInput, VersionInput } from '@/lib/versions'
+import type { Document } from '@/types'
+
+export type IngestionStageName = 'validate' | 'detectType' | 'extract' | 'normalize' | 'store' | 'index'
+
+// Where ingested files go and who is uploading them
+export interface IngestionTarget {
+  projectId: string
+  visibility: Document['visibility']
+  uploadedBy: string
+}
+
+/**
+ * State handed from stage to stage. Each stage reads what earlier stages
+ * filled in and returns the context with its own part added.
+ */
+export interface IngestionContext {
+  file: File
+  // Path relative to the picked folder or archive; the file name otherwise
+  path: string
+  target: IngestionTarget
+  // Document the file becomes a new version of
+  existing?: Document
+  // Progress of the running stage, in percent
+  onProgress?: (percent: number) => void
+  signal?: AbortSignal
+  // Set by `detectType`
+  detected?: DetectedType
+  // Set by `extract`, cleaned up by `normalize`
+  text?: string
+  // Set by `store`
+  document?: Document
+}
+
+export interface IngestionStage {
+  name: IngestionStageName
+  run(context: IngestionContext, services: IngestionServices): Promise<IngestionContext>
+  // Undo what `run` left behind when a later stage fails or the run is
+  // cancelled
+  cleanUp?(context: IngestionContext, services: IngestionServices): Promise<void>
+}
+
+export interface ExtractorOptions {
+  // Called with a percentage by slow extractors such as OCR
+  onProgress?: (percent: number) => void
+  signal?: AbortSignal
+}
+
+export interface TextExtractor {
+  extract(file: File, type: DetectedType, options?: ExtractorOptions): Promise<string>
+}
+
+export interface DocumentStore {
+  create(input: NewDocumentInput): Promise<Document>
+  addVersion(document: Document, input: VersionInput): Promise<Document>
+  // Delete a document made by `create`, with its file and versions
+  discard(document: Document): Promise<void>
+}
+
+export interface PassageIndexer {
+  // `replace` drops passages indexed for an earlier version first
+  index(document: Document, replace: boolean): Promise<void>
+}
+
+/**
+ * Everything the stages need from outside the browser. Swapping these for
+ * in-memory fakes lets the pipeline run without a backend.
+ */
+export interface IngestionServices {
+  extractor: TextExtractor
+  store: DocumentStore
+  indexer: PassageIndexer
+}
+
+export interface IngestionCallbacks {
+  onStage?: (stage: IngestionStageName) => void
+  // Progress of the running stage in percent: OCR while extracting, the
+  // upload while storing
+  onProgress?: (percent: number) => void
+  // Aborting stops the pipeline before its next stage and cancels extraction
+  signal?: AbortSignal
+}
+
+export interface IngestionResult {
+  document: Document
+  // True when the file was added as a new version of an existing document
+  isNewVersion: boolean
+}
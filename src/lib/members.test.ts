@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalDataServices, LOCAL_USER } from '@/lib/data/local'
+import { acceptInvitation, declineInvitation, inviteMember, revokeInvitation } from '@/lib/members'
+import type { Project, User } from '@/types'
+
+const invitee: User = { id: 'user-2', email: 'sam@example.com', createdAt: '2024-01-01T00:00:00.000Z' }
+
+async function setup() {
+  const data = createLocalDataServices()
+  const now = new Date().toISOString()
+  const project: Project = await data.projects.create({
+    name: 'Archive',
+    description: '',
+    ownerId: LOCAL_USER.id,
+    createdAt: now,
+    updatedAt: now
+  })
+  const invitation = await inviteMember(data, project, invitee.email, 'member', LOCAL_USER, [])
+  return { data, project, invitation }
+}
+
+describe('acceptInvitation', () => {
+  it('adds the invitee to the project', async () => {
+    const { data, project, invitation } = await setup()
+
+    const member = await acceptInvitation(data, invitation, invitee)
+
+    expect(member).toMatchObject({ projectId: project.id, userId: invitee.id, role: 'member' })
+    expect(await data.members.listInvitations({ projectId: project.id, status: 'accepted' })).toHaveLength(1)
+  })
+
+  it('rejects an invitation that was revoked after it was loaded', async () => {
+    const { data, project, invitation } = await setup()
+    await revokeInvitation(data, invitation)
+
+    await expect(acceptInvitation(data, invitation, invitee)).rejects.toThrow('This invitation is no longer pending')
+    expect(await data.members.listForProjects([project.id])).toHaveLength(0)
+  })
+
+  it('rejects an invitation that was already answered', async () => {
+    const { data, invitation } = await setup()
+
+    await expect(acceptInvitation(data, { ...invitation, status: 'accepted' }, invitee))
+      .rejects.toThrow('This invitation has already been accepted')
+    await expect(declineInvitation(data, { ...invitation, status: 'revoked' }))
+      .rejects.toThrow('This invitation has already been revoked')
+  })
+})
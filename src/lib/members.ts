@@ -0,0 +1,203 @@
+import type { DataServices } from '@/lib/data/types'
+import type { Project, ProjectInvitation, ProjectMember, User } from '@/types'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+export function isValidEmail(email: string) {
+  return EMAIL_PATTERN.test(normalizeEmail(email))
+}
+
+/**
+ * Number of people in a project. Projects created before membership records
+ * existed have no row for their owner, so the owner is counted separately.
+ */
+export function memberCount(project: Project, members: ProjectMember[]) {
+  const projectMembers = members.filter(member => member.projectId === project.id)
+  const ownerListed = projectMembers.some(member => member.userId === project.ownerId)
+  return projectMembers.length + (ownerListed ? 0 : 1)
+}
+
+export async function listMembers(data: DataServices, projectIds: string[]): Promise<ProjectMember[]> {
+  return data.members.listForProjects(projectIds)
+}
+
+export async function addOwnerMembership(data: DataServices, project: Project, owner: User): Promise<ProjectMember> {
+  return data.members.create({
+    projectId: project.id,
+    userId: owner.id,
+    email: owner.email,
+    role: 'owner',
+    joinedAt: new Date().toISOString()
+  })
+}
+
+export async function listProjectInvitations(data: DataServices, projectId: string): Promise<ProjectInvitation[]> {
+  return data.members.listInvitations({ projectId, status: 'pending' })
+}
+
+export async function listPendingInvitations(data: DataServices, email: string): Promise<ProjectInvitation[]> {
+  return data.members.listInvitations({ email: normalizeEmail(email), status: 'pending' })
+}
+
+export async function inviteMember(
+  data: DataServices,
+  project: Project,
+  email: string,
+  role: ProjectInvitation['role'],
+  invitedBy: User,
+  members: ProjectMember[]
+): Promise<ProjectInvitation> {
+  const address = normalizeEmail(email)
+  if (!isValidEmail(address)) {
+    throw new Error('Please enter a valid email address')
+  }
+  if (members.some(member => member.projectId === project.id && member.email?.toLowerCase() === address)) {
+    throw new Error(`${address} is already a member of this project`)
+  }
+
+  const pending = await data.members.listInvitations({ projectId: project.id, email: address, status: 'pending' })
+  if (pending.length > 0) {
+    throw new Error(`${address} has already been invited`)
+  }
+
+  return data.members.createInvitation({
+    projectId: project.id,
+    projectName: project.name,
+    email: address,
+    role,
+    invitedBy: invitedBy.id,
+    status: 'pending',
+    createdAt: new Date().toISOString()
+  })
+}
+
+async function respond(data: DataServices, invitation: ProjectInvitation, status: ProjectInvitation['status']) {
+  return data.members.updateInvitation(invitation.id, {
+    status,
+    respondedAt: new Date().toISOString()
+  })
+}
+
+/**
+ * Invitations are answered once. The stored invitation is checked as well,
+ * since the one on screen may have been revoked in the meantime.
+ */
+async function assertPending(data: DataServices, invitation: ProjectInvitation) {
+  if (invitation.status !== 'pending') {
+    throw new Error(`This invitation has already been ${invitation.status}`)
+  }
+  const pending = await data.members.listInvitations({
+    projectId: invitation.projectId,
+    email: invitation.email,
+    status: 'pending'
+  })
+  if (!pending.some(candidate => candidate.id === invitation.id)) {
+    throw new Error('This invitation is no longer pending')
+  }
+}
+
+/**
+ * Accept an invitation addressed to `user`, creating their membership.
+ */
+export async function acceptInvitation(data: DataServices, invitation: ProjectInvitation, user: User): Promise<ProjectMember> {
+  if (normalizeEmail(user.email) !== invitation.email) {
+    throw new Error('This invitation was sent to a different email address')
+  }
+  await assertPending(data, invitation)
+
+  const existing = await data.members.find(invitation.projectId, user.id)
+  const member = existing ?? await data.members.create({
+    projectId: invitation.projectId,
+    userId: user.id,
+    email: user.email,
+    role: invitation.role,
+    joinedAt: new Date().toISOString()
+  })
+
+  await respond(data, invitation, 'accepted')
+  return member
+}
+
+export async function declineInvitation(data: DataServices, invitation: ProjectInvitation) {
+  await assertPending(data, invitation)
+  return respond(data, invitation, 'declined')
+}
+
+export async function revokeInvitation(data: DataServices, invitation: ProjectInvitation) {
+  await assertPending(data, invitation)
+  return respond(data, invitation, 'revoked')
+}
+
+export async function changeMemberRole(
+  data: DataServices,
+  member: ProjectMember,
+  role: ProjectMember['role']
+): Promise<ProjectMember> {
+  if (member.role === 'owner' || role === 'owner') {
+    throw new Error('Project ownership cannot be changed here')
+  }
+  await data.members.update(member.id, { role })
+  return { ...member, role }
+}
+
+/**
+ * Hand a project over to one of its members. The previous owner stays in the
+ * project as an admin; owners of projects from before membership records get
+ * a row for that.
+ */
+export async function transferOwnership(
+  data: DataServices,
+  project: Project,
+  newOwner: ProjectMember,
+  previousOwner: User,
+  members: ProjectMember[]
+): Promise<{ project: Project; members: ProjectMember[] }> {
+  if (newOwner.projectId !== project.id) {
+    throw new Error('Ownership can only be transferred to a member of this project')
+  }
+  if (newOwner.userId === project.ownerId) {
+    throw new Error(`${newOwner.email ?? 'This member'} already owns this project`)
+  }
+  if (previousOwner.id !== project.ownerId) {
+    throw new Error('Only the project owner can transfer ownership')
+  }
+
+  await data.projects.update(project.id, { ownerId: newOwner.userId })
+  await data.members.update(newOwner.id, { role: 'owner' })
+
+  const listed = members.find(member => member.projectId === project.id && member.userId === previousOwner.id)
+  let demoted: ProjectMember
+  if (listed) {
+    await data.members.update(listed.id, { role: 'admin' })
+    demoted = { ...listed, role: 'admin' }
+  } else {
+    demoted = await data.members.create({
+      projectId: project.id,
+      userId: previousOwner.id,
+      email: previousOwner.email,
+      role: 'admin',
+      joinedAt: project.createdAt
+    })
+  }
+
+  return {
+    project: { ...project, ownerId: newOwner.userId },
+    members: [
+      ...members
+        .filter(member => member.id !== demoted.id)
+        .map(member => (member.id === newOwner.id ? { ...member, role: 'owner' as const } : member)),
+      demoted
+    ]
+  }
+}
+
+export async function removeMember(data: DataServices, member: ProjectMember) {
+  if (member.role === 'owner') {
+    throw new Error('The project owner cannot be removed')
+  }
+  await data.members.delete(member.id)
+}
@@ -0,0 +1,13 @@
+export function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  // Workers have no DOM
+  if (typeof document === 'undefined') return new OffscreenCanvas(Math.ceil(width), Math.ceil(height))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(width)
+  canvas.height = Math.ceil(height)
+  return canvas
+}
+
+export function context2d(canvas: HTMLCanvasElement | OffscreenCanvas) {
+  return canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+}
@@ -0,0 +1,49 @@
+import { createWorker, OEM, type ImageLike, type Worker } from 'tesseract.js'
+import workerUrl from 'tesseract.js/dist/worker.min.js?url'
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url'
+// Kept under its own name in the build, see `assetFileNames` in vite.config.ts
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url'
+
+// Bundled with the app so OCR works without reaching a CDN. Tesseract
+// fetches these from inside its worker, so they must be absolute.
+const absolute = (url: string) => new URL(url, self.location.href).href
+const WORKER_OPTIONS = {
+  workerPath: absolute(workerUrl),
+  corePath: absolute(coreUrl),
+  langPath: absolute(englishDataUrl).replace(/\/[^/]*$/, ''),
+  workerBlobURL: false
+}
+
+const progressListeners = new Map<string, (fraction: number) => void>()
+let worker: Promise<Worker> | null = null
+let nextJob = 0
+
+// Started on first use, since loading the model takes a few seconds
+function ocrWorker() {
+  worker ??= createWorker('eng', OEM.LSTM_ONLY, {
+    ...WORKER_OPTIONS,
+    logger: ({ userJobId, status, progress }) => {
+      if (status === 'recognizing text') progressListeners.get(userJobId)?.(progress)
+    }
+  }).catch(error => {
+    worker = null
+    throw error
+  })
+  return worker
+}
+
+/**
+ * Recognize the text in an image. Jobs run one at a time in a shared
+ * Tesseract worker; `onProgress` receives the share of this image done.
+ */
+export async function recognizeText(image: ImageLike, onProgress?: (fraction: number) => void) {
+  const jobId = `ocr_${++nextJob}`
+  if (onProgress) progressListeners.set(jobId, onProgress)
+
+  try {
+    const { data } = await (await ocrWorker()).recognize(image, {}, { text: true }, jobId)
+    return data.text ?? ''
+  } finally {
+    progressListeners.delete(jobId)
+  }
+}
@@ -0,0 +1,39 @@
+import { GlobalWorkerOptions, TextLayer, getDocument } from 'pdfjs-dist'
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+
+// Shared by the viewer and text extraction so pdf.js is configured once
+GlobalWorkerOptions.workerSrc = workerSrc
+
+// pdf.js makes scratch canvases through the DOM unless given a factory
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height)
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) }
+  }
+
+  reset({ canvas }: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvas.width = width
+    canvas.height = height
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0
+      canvasAndContext.canvas.height = 0
+    }
+    canvasAndContext.canvas = null
+    canvasAndContext.context = null
+  }
+}
+
+/**
+ * Open a PDF for reading its text or rendering pages. Inside a worker,
+ * fonts are drawn as paths and canvases are offscreen since there is no DOM.
+ */
+export function loadPdf(data: Uint8Array) {
+  const inWorker = typeof document === 'undefined'
+  return getDocument(inWorker ? { data, disableFontFace: true, CanvasFactory: OffscreenCanvasFactory } : { data }).promise
+}
+
+export { getDocument, TextLayer }
+export type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist'
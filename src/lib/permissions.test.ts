@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  assertCan,
+  assertCanOnDocument,
+  can,
+  canOnDocument,
+  PermissionError,
+  projectRole,
+  type Capability,
+  type ProjectRole
+} from '@/lib/permissions'
+import type { Document, Project, ProjectMember } from '@/types'
+
+const MATRIX: Record<Capability, ProjectRole[]> = {
+  uploadDocument: ['owner', 'admin', 'member'],
+  deleteDocument: ['owner', 'admin'],
+  changeVisibility: ['owner', 'admin'],
+  restoreVersion: ['owner', 'admin'],
+  manageMembers: ['owner', 'admin'],
+  renameProject: ['owner', 'admin'],
+  archiveProject: ['owner', 'admin'],
+  transferOwnership: ['owner'],
+  deleteProject: ['owner']
+}
+
+const ROLES: ProjectRole[] = ['owner', 'admin', 'member']
+
+const project = { id: 'project-1', ownerId: 'owner-1' } as Project
+const members = [
+  { projectId: 'project-1', userId: 'admin-1', role: 'admin' },
+  { projectId: 'project-2', userId: 'member-1', role: 'admin' },
+  { projectId: 'project-1', userId: 'member-1', role: 'member' }
+] as ProjectMember[]
+const document = { uploadedBy: 'member-1' } as Document
+
+describe('can', () => {
+  for (const [capability, allowed] of Object.entries(MATRIX) as [Capability, ProjectRole[]][]) {
+    it(`allows ${capability} to ${allowed.join(', ')} only`, () => {
+      for (const role of ROLES) {
+        expect(can(role, capability)).toBe(allowed.includes(role))
+      }
+      expect(can(null, capability)).toBe(false)
+    })
+  }
+})
+
+describe('projectRole', () => {
+  it('reads the role from the membership in that project', () => {
+    expect(projectRole('admin-1', project, members)).toBe('admin')
+    expect(projectRole('member-1', project, members)).toBe('member')
+    expect(projectRole('stranger', project, members)).toBeNull()
+  })
+
+  it('treats the project owner as owner without a membership row', () => {
+    expect(projectRole('owner-1', project, [])).toBe('owner')
+  })
+})
+
+describe('canOnDocument', () => {
+  it('lets the uploader delete, change the visibility of and restore their own document', () => {
+    expect(canOnDocument('member-1', 'member', 'deleteDocument', document)).toBe(true)
+    expect(canOnDocument('member-1', 'member', 'changeVisibility', document)).toBe(true)
+    expect(canOnDocument('member-1', 'member', 'restoreVersion', document)).toBe(true)
+    expect(canOnDocument('member-1', 'member', 'manageMembers', document)).toBe(false)
+  })
+
+  it('falls back to the role for other people', () => {
+    expect(canOnDocument('member-2', 'member', 'deleteDocument', document)).toBe(false)
+    expect(canOnDocument('member-2', 'member', 'restoreVersion', document)).toBe(false)
+    expect(canOnDocument('admin-1', 'admin', 'changeVisibility', document)).toBe(true)
+  })
+})
+
+describe('assertions', () => {
+  it('throw a PermissionError naming the capability', () => {
+    expect(() => assertCan('member', 'renameProject')).toThrow(PermissionError)
+    expect(() => assertCan('member', 'renameProject')).toThrow('You do not have permission to rename this project')
+    expect(() => assertCanOnDocument('member-2', 'member', 'changeVisibility', document))
+      .toThrow('You do not have permission to change the visibility of this document')
+    expect(() => assertCan('admin', 'renameProject')).not.toThrow()
+  })
+})
@@ -0,0 +1,94 @@
+import type { Document, Project, ProjectMember } from '@/types'
+
+export type ProjectRole = ProjectMember['role']
+
+export type Capability =
+  | 'uploadDocument'
+  | 'deleteDocument'
+  | 'changeVisibility'
+  | 'restoreVersion'
+  | 'manageMembers'
+  | 'renameProject'
+  | 'archiveProject'
+  | 'transferOwnership'
+  | 'deleteProject'
+
+const CAPABILITY_LABELS: Record<Capability, string> = {
+  uploadDocument: 'upload documents to this project',
+  deleteDocument: 'delete this document',
+  changeVisibility: 'change the visibility of this document',
+  restoreVersion: 'restore an earlier version of this document',
+  manageMembers: 'manage the members of this project',
+  renameProject: 'rename this project',
+  archiveProject: 'archive this project',
+  transferOwnership: 'transfer ownership of this project',
+  deleteProject: 'delete this project'
+}
+
+export class PermissionError extends Error {
+  capability: Capability
+
+  constructor(capability: Capability) {
+    super(`You do not have permission to ${CAPABILITY_LABELS[capability]}`)
+    this.name = 'PermissionError'
+    this.capability = capability
+  }
+}
+
+const ROLE_CAPABILITIES: Record<ProjectRole, Capability[]> = {
+  owner: [
+    'uploadDocument',
+    'deleteDocument',
+    'changeVisibility',
+    'restoreVersion',
+    'manageMembers',
+    'renameProject',
+    'archiveProject',
+    'transferOwnership',
+    'deleteProject'
+  ],
+  admin: [
+    'uploadDocument',
+    'deleteDocument',
+    'changeVisibility',
+    'restoreVersion',
+    'manageMembers',
+    'renameProject',
+    'archiveProject'
+  ],
+  member: ['uploadDocument']
+}
+
+// Whoever uploaded a document can always manage it, whatever their role
+const UPLOADER_CAPABILITIES: Capability[] = ['deleteDocument', 'changeVisibility', 'restoreVersion']
+
+/**
+ * The user's role in a project, or null when they are not part of it. The
+ * project owner is always `owner`, even without a membership row.
+ */
+export function projectRole(userId: string, project: Project, members: ProjectMember[]): ProjectRole | null {
+  if (project.ownerId === userId) return 'owner'
+  const member = members.find(m => m.projectId === project.id && m.userId === userId)
+  return member?.role ?? null
+}
+
+export function can(role: ProjectRole | null, capability: Capability): boolean {
+  return role !== null && ROLE_CAPABILITIES[role].includes(capability)
+}
+
+/**
+ * Document actions are allowed by project role, or to the uploader for the
+ * actions that concern only their own document.
+ */
+export function canOnDocument(userId: string, role: ProjectRole | null, capability: Capability, document: Document): boolean {
+  if (document.uploadedBy === userId && UPLOADER_CAPABILITIES.includes(capability)) return true
+  return can(role, capability)
+}
+
+export function assertCan(role: ProjectRole | null, capability: Capability) {
+  if (!can(role, capability)) throw new PermissionError(capability)
+}
+
+export function assertCanOnDocument(userId: string, role: ProjectRole | null, capability: Capability, document: Document) {
+  if (!canOnDocument(userId, role, capability, document)) throw new PermissionError(capability)
+}
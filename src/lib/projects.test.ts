@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { storageUsage } from '@/lib/projects'
+import type { DocumentVersion } from '@/types'
+
+function version(number: number, storagePath: string, restoredFrom?: number): DocumentVersion {
+  return {
+    id: `doc_v${number}`,
+    documentId: 'doc',
+    projectId: 'project-1',
+    version: number,
+    fileType: 'application/pdf',
+    fileSize: 1000,
+    content: '',
+    storagePath,
+    uploadedBy: 'user-1',
+    restoredFrom,
+    createdAt: '2024-01-01T00:00:00.000Z'
+  }
+}
+
+describe('storageUsage', () => {
+  it('counts a file shared by a restored version once', () => {
+    const usage = storageUsage([
+      version(1, 'documents/project-1/v1/report.pdf'),
+      version(2, 'documents/project-1/v2/report.pdf'),
+      version(3, 'documents/project-1/v1/report.pdf', 1)
+    ])
+
+    expect(usage.bytes).toBe(2000)
+    expect(usage.files).toBe(2)
+    expect(usage.byFormat).toEqual([{ label: 'PDF', bytes: 2000 }])
+  })
+})
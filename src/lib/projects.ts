@@ -0,0 +1,106 @@
+import type { DataServices } from '@/lib/data/types'
+import { formatForMimeType } from '@/lib/formats/registry'
+import type { Document, DocumentVersion, Project, ProjectMember } from '@/types'
+
+export type ProjectChanges = Partial<Pick<Project, 'name' | 'description'>>
+
+export async function updateProject(data: DataServices, project: Project, changes: ProjectChanges): Promise<Project> {
+  if (changes.name !== undefined && !changes.name.trim()) {
+    throw new Error('Project name cannot be empty')
+  }
+  const update = { ...changes, updatedAt: new Date().toISOString() }
+  await data.projects.update(project.id, update)
+  return { ...project, ...update }
+}
+
+export function isArchived(project: Project) {
+  return !!project.archivedAt
+}
+
+/**
+ * Archive or unarchive a project. Archived projects keep their documents but
+ * take no uploads and are left out of project pickers.
+ */
+export async function setArchived(data: DataServices, project: Project, archived: boolean): Promise<Project> {
+  const changes = { archivedAt: archived ? new Date().toISOString() : null }
+  await data.projects.update(project.id, changes)
+  return { ...project, ...changes }
+}
+
+export interface StorageUsage {
+  bytes: number
+  // Stored files of every version of every document
+  files: number
+  // Largest share first
+  byFormat: { label: string; bytes: number }[]
+}
+
+/**
+ * Storage taken up by a project's documents. Old versions keep their files,
+ * so they count as well as the current one. A restored version points at the
+ * file of the version it restores, so each stored file is counted once.
+ */
+export function storageUsage(versions: DocumentVersion[]): StorageUsage {
+  const files = [...new Map(versions.map(version => [version.storagePath, version])).values()]
+  const byFormat = new Map<string, number>()
+  for (const file of files) {
+    const label = formatForMimeType(file.fileType)?.label ?? 'Other'
+    byFormat.set(label, (byFormat.get(label) ?? 0) + file.fileSize)
+  }
+
+  return {
+    bytes: files.reduce((total, file) => total + file.fileSize, 0),
+    files: files.length,
+    byFormat: [...byFormat]
+      .map(([label, bytes]) => ({ label, bytes }))
+      .sort((a, b) => b.bytes - a.bytes)
+  }
+}
+
+export interface ActivityItem {
+  id: string
+  at: string
+  userId: string
+  // What the user did, e.g. "uploaded version 2 of"; followed by the
+  // document when there is one
+  action: string
+  documentId?: string
+}
+
+function versionAction(version: DocumentVersion) {
+  if (version.restoredFrom) return `restored version ${version.restoredFrom} of`
+  return version.version > 1 ? `uploaded version ${version.version} of` : 'uploaded'
+}
+
+/**
+ * The latest things that happened in a project: uploads, new and restored
+ * versions, and people joining, newest first.
+ */
+export function projectActivity(
+  project: Project,
+  documents: Document[],
+  versions: DocumentVersion[],
+  members: ProjectMember[],
+  limit = 10
+): ActivityItem[] {
+  const documentIds = new Set(documents.map(document => document.id))
+
+  const items: ActivityItem[] = [
+    { id: `created_${project.id}`, at: project.createdAt, userId: project.ownerId, action: 'created the project' },
+    ...versions
+      .filter(version => documentIds.has(version.documentId))
+      .map(version => ({
+        id: `version_${version.id}`,
+        at: version.createdAt,
+        userId: version.uploadedBy,
+        action: versionAction(version),
+        documentId: version.documentId
+      })),
+    // The owner's membership is dated when the project was created
+    ...members
+      .filter(member => member.projectId === project.id && member.role !== 'owner')
+      .map(member => ({ id: `joined_${member.id}`, at: member.joinedAt, userId: member.userId, action: 'joined the project' }))
+  ]
+
+  return items.sort((a, b) => b.at.localeCompare(a.at)).slice(0, limit)
+}
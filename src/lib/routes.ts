@@ -0,0 +1,47 @@
+import type { DocumentLocation } from '@/types'
+
+// Paths of the app's pages, so links are built in one place
+export const paths = {
+  dashboard: '/',
+  projects: '/projects',
+  documents: '/documents',
+  search: '/search',
+  team: '/team',
+  trash: '/trash',
+  settings: '/settings'
+} as const
+
+export function projectPath(projectId: string) {
+  return `${paths.projects}/${encodeURIComponent(projectId)}`
+}
+
+/**
+ * Link to a document, optionally to a passage in it. The passage is kept in
+ * `start` and `end` query parameters so shared links highlight it too.
+ */
+export function documentPath({ documentId, startOffset, endOffset }: DocumentLocation) {
+  const path = `${paths.documents}/${encodeURIComponent(documentId)}`
+  if (startOffset === undefined || endOffset === undefined) return path
+  return `${path}?${new URLSearchParams({ start: String(startOffset), end: String(endOffset) })}`
+}
+
+export function documentLocation(documentId: string, params: URLSearchParams): DocumentLocation {
+  const offset = (name: string) => {
+    const value = params.get(name)
+    return value !== null && /^\d+$/.test(value) ? Number(value) : undefined
+  }
+  const startOffset = offset('start')
+  const endOffset = offset('end')
+
+  return startOffset !== undefined && endOffset !== undefined && startOffset <= endOffset
+    ? { documentId, startOffset, endOffset }
+    : { documentId }
+}
+
+export function searchPath({ query, projectId }: { query?: string; projectId?: string } = {}) {
+  const params = new URLSearchParams()
+  if (query) params.set('q', query)
+  if (projectId) params.set('project', projectId)
+  const search = params.toString()
+  return search ? `${paths.search}?${search}` : paths.search
+}
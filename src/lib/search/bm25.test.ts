@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { buildBm25Index, searchBm25 } from '@/lib/search/bm25'
+import { tokenize } from '@/lib/search/tokenizer'
+
+const texts = [
+  'The annual budget report for the finance team.',
+  'Budget budget budget: notes on the budget.',
+  'A travel policy for the sales team.',
+  'Minutes of the finance committee on the audit.'
+]
+
+const index = buildBm25Index(texts, text => text)
+
+describe('buildBm25Index', () => {
+  it('counts term and document frequencies', () => {
+    expect(index.items[1].termFrequencies.get('budget')).toBe(4)
+    expect(index.documentFrequencies.get('budget')).toBe(2)
+    expect(index.documentFrequencies.get(tokenize('finance')[0])).toBe(2)
+    expect(index.items[0].length).toBe(tokenize(texts[0]).length)
+  })
+})
+
+describe('searchBm25', () => {
+  it('ranks items with more occurrences higher and leaves out non-matches', () => {
+    const matches = searchBm25(index, 'budget')
+
+    expect(matches.map(match => match.item)).toEqual([texts[1], texts[0]])
+    expect(matches[0].score).toBeGreaterThan(matches[1].score)
+  })
+
+  it('weighs rare terms above common ones', () => {
+    const [best] = searchBm25(index, 'team audit')
+
+    expect(best.item).toBe(texts[3])
+  })
+
+  it('reports confidence as a share of the best possible score', () => {
+    const matches = searchBm25(index, 'budget finance')
+
+    for (const match of matches) {
+      expect(match.confidence).toBeGreaterThan(0)
+      expect(match.confidence).toBeLessThanOrEqual(1)
+    }
+    // Matching both terms beats matching one, however often
+    expect(matches[0].item).toBe(texts[0])
+    expect(matches[0].confidence).toBeGreaterThan(matches[1].confidence)
+  })
+
+  it('stays below full confidence for a single occurrence', () => {
+    const [match] = searchBm25(buildBm25Index(['travel policy', 'audit'], text => text), 'travel')
+
+    expect(match.confidence).toBeLessThan(1)
+  })
+
+  it('applies the limit and ignores queries of stopwords only', () => {
+    expect(searchBm25(index, 'budget', 1)).toHaveLength(1)
+    expect(searchBm25(index, 'the of')).toEqual([])
+  })
+})
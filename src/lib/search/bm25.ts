@@ -0,0 +1,98 @@
+import { tokenize } from '@/lib/search/tokenizer'
+
+export interface Bm25Options {
+  k1?: number
+  b?: number
+}
+
+export interface Bm25Match<T> {
+  item: T
+  score: number
+  // Score as a share of the best score any item could reach for this query
+  confidence: number
+}
+
+interface IndexedItem<T> {
+  item: T
+  length: number
+  termFrequencies: Map<string, number>
+}
+
+export interface Bm25Index<T> {
+  items: IndexedItem<T>[]
+  documentFrequencies: Map<string, number>
+  averageLength: number
+  k1: number
+  b: number
+}
+
+const DEFAULT_K1 = 1.2
+const DEFAULT_B = 0.75
+
+/**
+ * Build a BM25 index over arbitrary items, using `getText` to read the
+ * searchable text of each one.
+ */
+export function buildBm25Index<T>(items: T[], getText: (item: T) => string, options: Bm25Options = {}): Bm25Index<T> {
+  const documentFrequencies = new Map<string, number>()
+  let totalLength = 0
+
+  const indexed = items.map(item => {
+    const terms = tokenize(getText(item))
+    const termFrequencies = new Map<string, number>()
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1)
+    }
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1)
+    }
+    totalLength += terms.length
+    return { item, length: terms.length, termFrequencies }
+  })
+
+  return {
+    items: indexed,
+    documentFrequencies,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0,
+    k1: options.k1 ?? DEFAULT_K1,
+    b: options.b ?? DEFAULT_B
+  }
+}
+
+// BM25+ style idf that never goes negative for very common terms
+function inverseDocumentFrequency<T>(index: Bm25Index<T>, term: string) {
+  const n = index.items.length
+  const df = index.documentFrequencies.get(term) ?? 0
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5))
+}
+
+/**
+ * Score every indexed item against the query. Items that share no term with
+ * the query are left out; the rest are returned best first.
+ */
+export function searchBm25<T>(index: Bm25Index<T>, query: string, limit?: number): Bm25Match<T>[] {
+  const queryTerms = [...new Set(tokenize(query))]
+  if (queryTerms.length === 0 || index.items.length === 0) return []
+
+  const idf = new Map(queryTerms.map(term => [term, inverseDocumentFrequency(index, term)]))
+  // tf / (tf + k) tends to 1, so idf * (k1 + 1) bounds each term's contribution
+  const maxScore = queryTerms.reduce((total, term) => total + idf.get(term)! * (index.k1 + 1), 0)
+
+  const matches: Bm25Match<T>[] = []
+  for (const { item, length, termFrequencies } of index.items) {
+    let score = 0
+    for (const term of queryTerms) {
+      const tf = termFrequencies.get(term)
+      if (!tf) continue
+
+      const lengthNorm = 1 - index.b + index.b * (length / (index.averageLength || 1))
+      score += idf.get(term)! * (tf * (index.k1 + 1)) / (tf + index.k1 * lengthNorm)
+    }
+    if (score > 0) {
+      matches.push({ item, score, confidence: maxScore > 0 ? Math.min(score / maxScore, 1) : 0 })
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score)
+  return limit === undefined ? matches : matches.slice(0, limit)
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { chunkText } from '@/lib/search/chunker'
+
+const sentences = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} talks about the quarterly budget.`).join(' ')
+
+describe('chunkText', () => {
+  it('keeps short text in one passage', () => {
+    expect(chunkText('  A short note.  ')).toEqual([{ position: 0, startOffset: 2, endOffset: 15, text: 'A short note.' }])
+  })
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText(' \n\n ')).toEqual([])
+  })
+
+  it('gives offsets into the original text', () => {
+    const chunks = chunkText(sentences, { size: 300, overlap: 50 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(sentences.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text)
+    }
+    expect(chunks.map(chunk => chunk.position)).toEqual(chunks.map((_, i) => i))
+  })
+
+  it('overlaps neighbouring passages and covers the whole text', () => {
+    const chunks = chunkText(sentences, { size: 300, overlap: 50 })
+
+    expect(chunks[0].startOffset).toBe(0)
+    expect(chunks[chunks.length - 1].endOffset).toBe(sentences.length)
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startOffset).toBeLessThan(chunks[i - 1].endOffset)
+      expect(chunks[i].startOffset).toBeGreaterThan(chunks[i - 1].startOffset)
+    }
+  })
+
+  it('ends passages at sentence boundaries where it can', () => {
+    const chunks = chunkText(sentences, { size: 300, overlap: 50 })
+
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.text.endsWith('.')).toBe(true)
+    }
+  })
+
+  it('starts overlapping passages on a word', () => {
+    const chunks = chunkText(sentences, { size: 300, overlap: 50 })
+
+    for (const chunk of chunks.slice(1)) {
+      expect(sentences[chunk.startOffset - 1]).toMatch(/\s/)
+    }
+  })
+})
@@ -0,0 +1,78 @@
+export interface TextChunk {
+  position: number
+  startOffset: number
+  endOffset: number
+  text: string
+}
+
+export interface ChunkOptions {
+  size?: number
+  overlap?: number
+}
+
+const DEFAULT_CHUNK_SIZE = 1200
+const DEFAULT_CHUNK_OVERLAP = 200
+
+// Prefer to end a chunk on a paragraph, sentence or word boundary, as long as
+// that does not shrink it below this share of the requested size.
+const MIN_BOUNDARY_RATIO = 0.6
+
+function findBoundary(text: string, start: number, end: number, minEnd: number) {
+  if (end >= text.length) return text.length
+
+  const window = text.slice(minEnd, end)
+  const paragraph = window.lastIndexOf('\n\n')
+  if (paragraph !== -1) return minEnd + paragraph + 2
+
+  const sentence = Math.max(
+    window.lastIndexOf('. '),
+    window.lastIndexOf('? '),
+    window.lastIndexOf('! '),
+    window.lastIndexOf('.\n')
+  )
+  if (sentence !== -1) return minEnd + sentence + 2
+
+  const space = window.search(/\s\S*$/)
+  if (space !== -1) return minEnd + space + 1
+
+  return Math.max(end, start + 1)
+}
+
+/**
+ * Split extracted document text into overlapping passages. Offsets refer to
+ * the original string so a passage can always be located in `Document.content`.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const size = Math.max(options.size ?? DEFAULT_CHUNK_SIZE, 1)
+  const overlap = Math.min(Math.max(options.overlap ?? DEFAULT_CHUNK_OVERLAP, 0), size - 1)
+  const chunks: TextChunk[] = []
+
+  let start = 0
+  while (start < text.length) {
+    // Skip leading whitespace so passages do not start mid-gap
+    while (start < text.length && /\s/.test(text[start])) start++
+    if (start >= text.length) break
+
+    const minEnd = start + Math.floor(size * MIN_BOUNDARY_RATIO)
+    const end = findBoundary(text, start, start + size, minEnd)
+    const chunk = text.slice(start, end).trimEnd()
+
+    if (chunk) {
+      chunks.push({
+        position: chunks.length,
+        startOffset: start,
+        endOffset: start + chunk.length,
+        text: chunk
+      })
+    }
+
+    if (end >= text.length) break
+
+    // Step back by the overlap, then forward to the next word start
+    let next = Math.max(end - overlap, start + 1)
+    while (next < end && !/\s/.test(text[next - 1])) next++
+    start = next
+  }
+
+  return chunks
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { parseCitedAnswer } from '@/lib/search/citations'
+import type { RankedPassage } from '@/lib/search/retrieval'
+import type { Document } from '@/types'
+
+function ranked(id: string, documentId: string, startOffset: number, text: string): RankedPassage {
+  return {
+    passage: {
+      id,
+      documentId,
+      projectId: 'project-1',
+      uploadedBy: 'user-1',
+      position: 0,
+      startOffset,
+      endOffset: startOffset + text.length,
+      text,
+      createdAt: '2024-01-01T00:00:00.000Z'
+    },
+    score: 1,
+    confidence: 0.5
+  }
+}
+
+const passages = [
+  ranked('a_0', 'a', 100, 'The budget was approved in March.'),
+  ranked('b_0', 'b', 0, 'Hiring is frozen until the audit ends.')
+]
+const documents = [{ id: 'a', name: 'budget.pdf' }, { id: 'b', name: 'hiring.docx' }] as Document[]
+
+describe('parseCitedAnswer', () => {
+  it('splits the answer into text and citation segments', () => {
+    const { segments, citations } = parseCitedAnswer('Approved in March [1]. Hiring is frozen [2].', 'budget', passages, documents)
+
+    expect(segments).toEqual([
+      { type: 'text', text: 'Approved in March ' },
+      { type: 'citation', marker: 1 },
+      { type: 'text', text: '. Hiring is frozen ' },
+      { type: 'citation', marker: 2 },
+      { type: 'text', text: '.' }
+    ])
+    expect(citations.map(citation => [citation.marker, citation.passageId, citation.documentName])).toEqual([
+      [1, 'a_0', 'budget.pdf'],
+      [2, 'b_0', 'hiring.docx']
+    ])
+  })
+
+  it('reads grouped markers and cites each passage once', () => {
+    const { segments, citations } = parseCitedAnswer('Both [2, 1]. Again [1].', 'budget', passages, documents)
+
+    expect(segments.filter(segment => segment.type === 'citation')).toEqual([
+      { type: 'citation', marker: 2 },
+      { type: 'citation', marker: 1 },
+      { type: 'citation', marker: 1 }
+    ])
+    expect(citations.map(citation => citation.marker)).toEqual([1, 2])
+  })
+
+  it('drops markers for passages the model was not given', () => {
+    const { segments, citations, invalidMarkers } = parseCitedAnswer('Made up [7]. Real [1, 9].', 'budget', passages, documents)
+
+    expect(segments).toEqual([
+      { type: 'text', text: 'Made up . Real ' },
+      { type: 'citation', marker: 1 },
+      { type: 'text', text: '.' }
+    ])
+    expect(citations).toHaveLength(1)
+    expect(invalidMarkers).toEqual([7, 9])
+  })
+
+  it('locates the cited text in the document', () => {
+    const [citation] = parseCitedAnswer('Approved [1].', 'budget', passages, documents).citations
+
+    expect(citation.relevantText).toBe('The budget was approved in March.')
+    expect(citation.highlights).toEqual([{ start: 4, end: 10 }])
+    expect([citation.startOffset, citation.endOffset]).toEqual([100, 133])
+  })
+})
@@ -0,0 +1,83 @@
+import type { RankedPassage } from '@/lib/search/retrieval'
+import { extractSnippet, withEllipses } from '@/lib/search/snippets'
+import type { AnswerSegment, Citation, Document } from '@/types'
+
+export interface CitedAnswer {
+  segments: AnswerSegment[]
+  citations: Citation[]
+  // Markers the model produced that do not match any passage it was given
+  invalidMarkers: number[]
+}
+
+// Matches "[2]" as well as grouped markers such as "[1, 3]"
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+
+export const CITATION_INSTRUCTIONS = `Each passage is labelled with an ID in square brackets, e.g. [1]. After every sentence that uses information from a passage, cite it with its ID in square brackets, e.g. "The budget was approved in March [2]." Only cite IDs from the list above and never invent new ones.`
+
+/**
+ * Build the citation for the passage behind a marker. Markers are 1-based
+ * positions in the ranked list that was sent to the model.
+ */
+function citationFor(marker: number, query: string, ranked: RankedPassage[], documents: Document[]): Citation | null {
+  const entry = ranked[marker - 1]
+  if (!entry) return null
+
+  const { passage } = entry
+  const snippet = extractSnippet(passage.text, query, { windowSize: 360 })
+  const excerpt = snippet ? withEllipses(snippet) : { text: passage.text, highlights: [] }
+  return {
+    marker,
+    passageId: passage.id,
+    documentId: passage.documentId,
+    documentName: documents.find(doc => doc.id === passage.documentId)?.name ?? 'Unknown document',
+    relevantText: excerpt.text,
+    highlights: excerpt.highlights,
+    startOffset: passage.startOffset + (snippet?.start ?? 0),
+    endOffset: passage.startOffset + (snippet?.end ?? passage.text.length)
+  }
+}
+
+function pushText(segments: AnswerSegment[], text: string) {
+  if (!text) return
+  const last = segments[segments.length - 1]
+  if (last?.type === 'text') {
+    last.text += text
+  } else {
+    segments.push({ type: 'text', text })
+  }
+}
+
+/**
+ * Split a model answer into text and citation segments. Markers that point at
+ * passages the model was never given are dropped from the answer and
+ * reported in `invalidMarkers`.
+ */
+export function parseCitedAnswer(answer: string, query: string, ranked: RankedPassage[], documents: Document[]): CitedAnswer {
+  const segments: AnswerSegment[] = []
+  const citations = new Map<number, Citation>()
+  const invalidMarkers = new Set<number>()
+
+  let lastIndex = 0
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    pushText(segments, answer.slice(lastIndex, match.index))
+    lastIndex = match.index + match[0].length
+
+    for (const value of match[1].split(',')) {
+      const marker = Number(value.trim())
+      const citation = citations.get(marker) ?? citationFor(marker, query, ranked, documents)
+      if (!citation) {
+        invalidMarkers.add(marker)
+        continue
+      }
+      citations.set(marker, citation)
+      segments.push({ type: 'citation', marker })
+    }
+  }
+  pushText(segments, answer.slice(lastIndex))
+
+  return {
+    segments,
+    citations: [...citations.values()].sort((a, b) => a.marker - b.marker),
+    invalidMarkers: [...invalidMarkers]
+  }
+}
@@ -0,0 +1,61 @@
+import type { TextStreamer } from '@/lib/ai/streaming'
+import type { SearchResult } from '@/types'
+
+export interface ChatTurn {
+  id: string
+  question: string
+  // What retrieval actually searched for, after rewriting against history
+  searchQuery: string
+  result: SearchResult
+  contextPassageIds: string[]
+}
+
+// Only the most recent turns are sent back to the model
+const HISTORY_TURNS = 4
+const MAX_TITLE_LENGTH = 60
+
+// Citation markers only make sense next to the passages of their own turn
+function stripMarkers(answer: string) {
+  return answer.replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '')
+}
+
+export function formatHistory(turns: ChatTurn[]) {
+  return turns
+    .slice(-HISTORY_TURNS)
+    .map(turn => `User: ${turn.question}\nAssistant: ${stripMarkers(turn.result.answer)}`)
+    .join('\n\n')
+}
+
+export function buildRewritePrompt(turns: ChatTurn[], question: string) {
+  return `Rewrite the follow-up question so it can be understood without the conversation, for use as a document search query. Resolve pronouns and references such as "it", "that report" or "the 2023 version" using the conversation. Reply with the rewritten question only.
+
+Conversation:
+${formatHistory(turns)}
+
+Follow-up question: ${question}`
+}
+
+/**
+ * Turn a follow-up question into a standalone search query. The first
+ * question of a thread is used as-is.
+ */
+export async function rewriteQuery(
+  streamer: TextStreamer,
+  turns: ChatTurn[],
+  question: string,
+  signal?: AbortSignal
+): Promise<string> {
+  if (turns.length === 0) return question
+
+  const { text, aborted } = await streamer.streamText(
+    { prompt: buildRewritePrompt(turns, question), maxTokens: 200, signal },
+    () => {}
+  )
+  const rewritten = text.trim().replace(/^["']|["']$/g, '')
+  return aborted || !rewritten ? question : rewritten
+}
+
+export function threadTitle(question: string) {
+  const title = question.trim().replace(/\s+/g, ' ')
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title
+}
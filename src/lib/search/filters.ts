@@ -0,0 +1,92 @@
+import { formatForMimeType } from '@/lib/formats/registry'
+import type { Document } from '@/types'
+
+export interface SearchFilters {
+  projectIds: string[]
+  fileTypes: string[]
+  visibility: 'all' | 'private' | 'team'
+  // Inclusive `YYYY-MM-DD` bounds on `createdAt`
+  createdFrom?: string
+  createdTo?: string
+  uploaderIds: string[]
+  // Search archived projects too; a project picked in `projectIds` is
+  // searched either way
+  includeArchived: boolean
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  projectIds: [],
+  fileTypes: [],
+  visibility: 'all',
+  uploaderIds: [],
+  includeArchived: false
+}
+
+export function fileTypeLabel(fileType: string) {
+  return formatForMimeType(fileType)?.label || fileType || 'Unknown'
+}
+
+/**
+ * Keep only the documents that match every active filter. Empty lists mean
+ * "no restriction" for that field.
+ */
+export function applySearchFilters(documents: Document[], filters: SearchFilters, archivedProjectIds = new Set<string>()): Document[] {
+  const from = filters.createdFrom ? new Date(`${filters.createdFrom}T00:00:00`).getTime() : -Infinity
+  const to = filters.createdTo ? new Date(`${filters.createdTo}T23:59:59.999`).getTime() : Infinity
+
+  return documents.filter(doc => {
+    if (filters.projectIds.length > 0 && !filters.projectIds.includes(doc.projectId)) return false
+    if (!filters.includeArchived && archivedProjectIds.has(doc.projectId) && !filters.projectIds.includes(doc.projectId)) return false
+    if (filters.fileTypes.length > 0 && !filters.fileTypes.includes(doc.fileType)) return false
+    if (filters.visibility !== 'all' && doc.visibility !== filters.visibility) return false
+    if (filters.uploaderIds.length > 0 && !filters.uploaderIds.includes(doc.uploadedBy)) return false
+
+    const created = new Date(doc.createdAt).getTime()
+    return created >= from && created <= to
+  })
+}
+
+export function countActiveFilters(filters: SearchFilters) {
+  return [
+    filters.projectIds.length > 0,
+    filters.fileTypes.length > 0,
+    filters.visibility !== 'all',
+    !!filters.createdFrom || !!filters.createdTo,
+    filters.uploaderIds.length > 0,
+    filters.includeArchived
+  ].filter(Boolean).length
+}
+
+/**
+ * Encode filters as URL search params so a scoped search can be shared.
+ * List values are repeated params, e.g. `?project=a&project=b`.
+ */
+export function filtersToParams(filters: SearchFilters, params = new URLSearchParams()) {
+  for (const key of ['project', 'type', 'uploader', 'visibility', 'from', 'to', 'archived']) {
+    params.delete(key)
+  }
+
+  filters.projectIds.forEach(id => params.append('project', id))
+  filters.fileTypes.forEach(type => params.append('type', type))
+  filters.uploaderIds.forEach(id => params.append('uploader', id))
+  if (filters.visibility !== 'all') params.set('visibility', filters.visibility)
+  if (filters.createdFrom) params.set('from', filters.createdFrom)
+  if (filters.createdTo) params.set('to', filters.createdTo)
+  if (filters.includeArchived) params.set('archived', '1')
+  return params
+}
+
+export function filtersFromParams(params: URLSearchParams): SearchFilters {
+  const visibility = params.get('visibility')
+  const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+  return {
+    projectIds: params.getAll('project'),
+    fileTypes: params.getAll('type'),
+    uploaderIds: params.getAll('uploader'),
+    visibility: visibility === 'private' || visibility === 'team' ? visibility : 'all',
+    createdFrom: isDate(params.get('from')) ? params.get('from')! : undefined,
+    createdTo: isDate(params.get('to')) ? params.get('to')! : undefined,
+    includeArchived: params.get('archived') === '1'
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createLocalDataServices, LOCAL_USER } from '@/lib/data/local'
+import { createPassageLoader, passageIndexKey } from '@/lib/search/passages'
+
+async function setup() {
+  const data = createLocalDataServices()
+  const create = (name: string, content: string) =>
+    data.documents.create({
+      name,
+      content,
+      fileType: 'text/plain',
+      fileSize: content.length,
+      projectId: 'project-1',
+      uploadedBy: LOCAL_USER.id,
+      visibility: 'private',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    })
+  const documents = [await create('a.txt', 'The budget was approved.'), await create('b.txt', 'Hiring is frozen.')]
+  return { data, documents }
+}
+
+describe('createPassageLoader', () => {
+  it('fetches the passages of each document once', async () => {
+    const { data, documents } = await setup()
+    const listPassages = vi.spyOn(data.documents, 'listPassages')
+    const load = createPassageLoader(data)
+
+    const first = await load(documents)
+    const second = await load(documents)
+
+    expect(second).toEqual(first)
+    expect(first.map(passage => passage.text)).toEqual(['The budget was approved.', 'Hiring is frozen.'])
+    expect(listPassages).toHaveBeenCalledTimes(1)
+  })
+
+  it('fetches a document again once it changes', async () => {
+    const { data, documents } = await setup()
+    const listPassages = vi.spyOn(data.documents, 'listPassages')
+    const load = createPassageLoader(data)
+    await load(documents)
+
+    const changed = { ...documents[1], content: 'Hiring resumes.', updatedAt: '2024-02-01T00:00:00.000Z' }
+    const passages = await load([documents[0], changed])
+
+    expect(listPassages).toHaveBeenLastCalledWith([changed.id])
+    expect(passages.map(passage => passage.text)).toEqual(['The budget was approved.', 'Hiring resumes.'])
+  })
+})
+
+describe('passageIndexKey', () => {
+  it('changes when a document does', async () => {
+    const { documents } = await setup()
+    const changed = { ...documents[0], updatedAt: '2024-02-01T00:00:00.000Z' }
+
+    expect(passageIndexKey([changed, documents[1]])).not.toBe(passageIndexKey(documents))
+  })
+})
@@ -0,0 +1,83 @@
+import type { DataServices } from '@/lib/data/types'
+import { chunkText, type TextChunk } from '@/lib/search/chunker'
+import { runInWorker } from '@/lib/workers/tasks'
+import type { Document, Passage } from '@/types'
+
+/**
+ * Build passages for a document in memory, without touching the database.
+ * Used at upload time and as a fallback for documents indexed before
+ * passages were stored.
+ */
+export function createPassages(document: Document): Passage[] {
+  return toPassages(document, chunkText(document.content || ''))
+}
+
+function toPassages(document: Document, chunks: TextChunk[]): Passage[] {
+  return chunks.map(chunk => ({
+    id: `${document.id}_p${chunk.position}`,
+    documentId: document.id,
+    projectId: document.projectId,
+    uploadedBy: document.uploadedBy,
+    position: chunk.position,
+    startOffset: chunk.startOffset,
+    endOffset: chunk.endOffset,
+    text: chunk.text,
+    createdAt: document.createdAt
+  }))
+}
+
+// Chunks in a worker, since long documents take a while to split
+export async function savePassages(data: DataServices, document: Document): Promise<Passage[]> {
+  const chunks = await runInWorker({ kind: 'chunk', text: document.content || '' })
+  const passages = toPassages(document, chunks)
+  if (passages.length === 0) return []
+
+  return data.documents.createPassages(passages)
+}
+
+/**
+ * Re-index a document whose content changed, e.g. after a new version.
+ */
+export async function replacePassages(data: DataServices, document: Document): Promise<Passage[]> {
+  await data.documents.deletePassages(document.id)
+  return savePassages(data, document)
+}
+
+/**
+ * Load the stored passages for the given documents, chunking on the fly any
+ * document that has none stored yet.
+ */
+export async function loadPassages(data: DataServices, documents: Document[]): Promise<Passage[]> {
+  const stored = await data.documents.listPassages(documents.map(doc => doc.id))
+
+  const indexed = new Set(stored.map(passage => passage.documentId))
+  const missing = documents
+    .filter(doc => !indexed.has(doc.id))
+    .flatMap(createPassages)
+
+  return [...stored, ...missing]
+}
+
+/**
+ * Load passages like `loadPassages`, keeping them by document so that later
+ * questions only fetch the documents that are new or changed since.
+ */
+export function createPassageLoader(data: DataServices) {
+  const cache = new Map<string, { updatedAt: string; passages: Passage[] }>()
+
+  return async (documents: Document[]): Promise<Passage[]> => {
+    const stale = documents.filter(doc => cache.get(doc.id)?.updatedAt !== doc.updatedAt)
+    if (stale.length > 0) {
+      const loaded = new Map<string, Passage[]>(stale.map(doc => [doc.id, []]))
+      for (const passage of await loadPassages(data, stale)) loaded.get(passage.documentId)?.push(passage)
+      for (const doc of stale) cache.set(doc.id, { updatedAt: doc.updatedAt, passages: loaded.get(doc.id) ?? [] })
+    }
+    return documents.flatMap(doc => cache.get(doc.id)?.passages ?? [])
+  }
+}
+
+// Changes whenever the passages of the documents may have, for caching
+// the search index built over them
+export function passageIndexKey(documents: Document[]) {
+  return documents.map(doc => `${doc.id}@${doc.updatedAt}`).join('|')
+}
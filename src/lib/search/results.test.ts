@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { createFakeStreamer } from '@/lib/ai/streaming'
+import type { RankedPassage } from '@/lib/search/retrieval'
+import { streamSearchResult } from '@/lib/search/results'
+import type { Document, SearchResult } from '@/types'
+
+const document: Document = {
+  id: 'doc-1',
+  name: 'budget.txt',
+  content: 'The budget was approved in March.',
+  fileType: 'text/plain',
+  fileSize: 33,
+  projectId: 'project-1',
+  uploadedBy: 'user-1',
+  visibility: 'private',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+}
+
+const ranked: RankedPassage[] = [
+  {
+    passage: {
+      id: 'doc-1_0',
+      documentId: 'doc-1',
+      projectId: 'project-1',
+      uploadedBy: 'user-1',
+      position: 0,
+      startOffset: 0,
+      endOffset: 33,
+      text: document.content,
+      createdAt: document.createdAt
+    },
+    score: 1.2,
+    confidence: 0.9
+  }
+]
+
+const request = { query: 'budget', ranked, documents: [document] }
+
+describe('streamSearchResult', () => {
+  it('reports the answer as it streams and cites its sources', async () => {
+    const streamer = createFakeStreamer(['The budget ', 'was approved ', 'in March [1].'], { delayMs: 0 })
+    const partials: string[] = []
+
+    const result = await streamSearchResult(streamer, request, partial => partials.push(partial.answer))
+
+    expect(partials).toEqual(['The budget ', 'The budget was approved ', 'The budget was approved in March [1].'])
+    expect(result?.partial).toBe(false)
+    expect(result?.citations.map(citation => citation.passageId)).toEqual(['doc-1_0'])
+    expect(result?.sources.map(source => source.documentName)).toEqual(['budget.txt'])
+  })
+
+  it('keeps the partial answer of a stopped stream', async () => {
+    const streamer = createFakeStreamer(['The budget ', 'was approved ', 'in March [1].'], { delayMs: 0 })
+    const controller = new AbortController()
+    const stopAfterFirstChunk = (partial: SearchResult) => {
+      if (partial.answer) controller.abort()
+    }
+
+    const result = await streamSearchResult(streamer, { ...request, signal: controller.signal }, stopAfterFirstChunk)
+
+    expect(result?.answer).toBe('The budget ')
+    expect(result?.partial).toBe(true)
+  })
+
+  it('gives no result when stopped before any text arrived', async () => {
+    const streamer = createFakeStreamer(['The budget'], { delayMs: 0 })
+    const controller = new AbortController()
+    controller.abort()
+    const partials: SearchResult[] = []
+
+    const result = await streamSearchResult(streamer, { ...request, signal: controller.signal }, partial => partials.push(partial))
+
+    expect(result).toBeNull()
+    expect(partials).toEqual([])
+  })
+})
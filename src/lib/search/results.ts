@@ -0,0 +1,104 @@
+import type { TextStreamer } from '@/lib/ai/streaming'
+import { parseCitedAnswer, CITATION_INSTRUCTIONS } from '@/lib/search/citations'
+import { buildPassageContext, type RankedPassage } from '@/lib/search/retrieval'
+import { extractSnippet, withEllipses } from '@/lib/search/snippets'
+import type { Document, SearchResult } from '@/types'
+
+const MAX_SOURCES = 5
+
+export function buildSearchPrompt(query: string, ranked: RankedPassage[], documents: Document[], history = '') {
+  const conversation = history
+    ? `This is a follow-up in an ongoing conversation:
+${history}
+
+`
+    : ''
+
+  return `${conversation}Based on the following document passages, answer this question: "${query}"
+
+Passages:
+${buildPassageContext(ranked, documents) || 'No matching passages were found.'}
+
+${CITATION_INSTRUCTIONS}
+
+Please provide a comprehensive answer. If the answer cannot be found in the passages, say so clearly.`
+}
+
+/**
+ * Turn a (possibly partial) model answer into a search result: citation
+ * segments for the answer and one source per cited document.
+ */
+export function buildSearchResult(
+  answer: string,
+  query: string,
+  ranked: RankedPassage[],
+  documents: Document[],
+  partial = false
+): SearchResult {
+  const { segments, citations } = parseCitedAnswer(answer, query, ranked, documents)
+
+  // Sources are the documents the answer cites, falling back to the best
+  // ranked passages when the model did not cite anything
+  const citedPassageIds = new Set(citations.map(citation => citation.passageId))
+  const supporting = citations.length > 0
+    ? ranked.filter(({ passage }) => citedPassageIds.has(passage.id))
+    : ranked
+
+  // One source per document, represented by its best-ranked passage
+  const seen = new Set<string>()
+  const topPassages = supporting.filter(({ passage }) => {
+    if (seen.has(passage.documentId)) return false
+    seen.add(passage.documentId)
+    return true
+  }).slice(0, MAX_SOURCES)
+
+  return {
+    answer,
+    segments,
+    citations,
+    partial,
+    sources: topPassages.map(({ passage, confidence }) => {
+      const document = documents.find(doc => doc.id === passage.documentId)
+      const snippet = extractSnippet(document?.content || passage.text, query)
+      const excerpt = snippet ? withEllipses(snippet) : { text: '', highlights: [] }
+      return {
+        documentId: passage.documentId,
+        documentName: document?.name ?? 'Unknown document',
+        relevantText: excerpt.text,
+        highlights: excerpt.highlights,
+        confidence
+      }
+    })
+  }
+}
+
+export interface AnswerRequest {
+  query: string
+  ranked: RankedPassage[]
+  documents: Document[]
+  // Earlier turns of the conversation, formatted with `formatHistory`
+  history?: string
+  signal?: AbortSignal
+}
+
+/**
+ * Stream an answer from the ranked passages, passing each partial result to
+ * `onResult` as it grows. A cancelled answer keeps the text it had, marked
+ * `partial`; one cancelled before any text arrived resolves to null.
+ */
+export async function streamSearchResult(
+  streamer: TextStreamer,
+  { query, ranked, documents, history, signal }: AnswerRequest,
+  onResult: (result: SearchResult) => void
+): Promise<SearchResult | null> {
+  const { text, aborted } = await streamer.streamText(
+    { prompt: buildSearchPrompt(query, ranked, documents, history), maxTokens: 1000, signal },
+    partialText => {
+      const { segments, citations } = parseCitedAnswer(partialText, query, ranked, documents)
+      onResult({ answer: partialText, segments, citations, sources: [] })
+    }
+  )
+
+  if (!text && aborted) return null
+  return buildSearchResult(text, query, ranked, documents, aborted)
+}
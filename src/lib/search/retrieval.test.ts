@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { buildPassageContext, rankPassages } from '@/lib/search/retrieval'
+import type { Document, Passage } from '@/types'
+
+function passage(id: string, documentId: string, position: number, text: string): Passage {
+  return {
+    id,
+    documentId,
+    projectId: 'project-1',
+    uploadedBy: 'user-1',
+    position,
+    startOffset: 0,
+    endOffset: text.length,
+    text,
+    createdAt: '2024-01-01T00:00:00.000Z'
+  }
+}
+
+const passages = [
+  passage('a_0', 'a', 0, 'Minutes of the weekly standup.'),
+  passage('b_0', 'b', 0, 'The budget for 2024 was approved.'),
+  passage('b_1', 'b', 1, 'Budget cuts hit the marketing budget hardest.')
+]
+
+describe('rankPassages', () => {
+  it('returns matching passages best first and drops the rest', () => {
+    const ranked = rankPassages('budget', passages)
+
+    expect(ranked.map(({ passage }) => passage.id)).toEqual(['b_1', 'b_0'])
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score)
+  })
+
+  it('keeps only the top matches', () => {
+    expect(rankPassages('budget', passages, 1).map(({ passage }) => passage.id)).toEqual(['b_1'])
+  })
+
+  it('reuses the index built for the same key', () => {
+    rankPassages('budget', passages, 8, 'scope-1')
+    const ranked = rankPassages('budget', [passage('c_0', 'c', 0, 'A different budget.')], 8, 'scope-1')
+
+    expect(ranked.map(({ passage }) => passage.id)).toEqual(['b_1', 'b_0'])
+  })
+})
+
+describe('buildPassageContext', () => {
+  it('labels passages with their 1-based rank, the ID the model cites', () => {
+    const documents = [{ id: 'b', name: 'budget.pdf' }] as Document[]
+    const context = buildPassageContext(rankPassages('budget', passages), documents)
+
+    expect(context).toBe(
+      '[1] Document: budget.pdf (passage 2)\nBudget cuts hit the marketing budget hardest.\n---\n' +
+        '[2] Document: budget.pdf (passage 1)\nThe budget for 2024 was approved.\n---'
+    )
+  })
+})
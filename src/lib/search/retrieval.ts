@@ -0,0 +1,54 @@
+import { buildBm25Index, searchBm25, type Bm25Index } from '@/lib/search/bm25'
+import type { Document, Passage } from '@/types'
+
+export interface RankedPassage {
+  passage: Passage
+  score: number
+  confidence: number
+}
+
+export const DEFAULT_TOP_K = 8
+
+// Indexes of the most recent search scopes, by the key the caller gave them
+const MAX_CACHED_INDEXES = 2
+const cachedIndexes = new Map<string, Bm25Index<Passage>>()
+
+function passageIndex(passages: Passage[], key?: string) {
+  const cached = key === undefined ? undefined : cachedIndexes.get(key)
+  if (cached) return cached
+
+  const index = buildBm25Index(passages, passage => passage.text)
+  if (key !== undefined) {
+    cachedIndexes.set(key, index)
+    const [oldest] = cachedIndexes.keys()
+    if (cachedIndexes.size > MAX_CACHED_INDEXES) cachedIndexes.delete(oldest)
+  }
+  return index
+}
+
+/**
+ * Rank passages against the query with BM25 and return the best `limit`
+ * matches. Passages without any query term are dropped. With an `indexKey`,
+ * which must change whenever the passages do, the index is kept and reused
+ * by later questions over the same passages.
+ */
+export function rankPassages(query: string, passages: Passage[], limit = DEFAULT_TOP_K, indexKey?: string): RankedPassage[] {
+  return searchBm25(passageIndex(passages, indexKey), query, limit).map(({ item, score, confidence }) => ({
+    passage: item,
+    score,
+    confidence
+  }))
+}
+
+/**
+ * Format ranked passages for the model prompt. Each passage is labelled with
+ * its 1-based position in `ranked`, which is the ID the model cites.
+ */
+export function buildPassageContext(ranked: RankedPassage[], documents: Document[]) {
+  return ranked
+    .map(({ passage }, index) => {
+      const document = documents.find(doc => doc.id === passage.documentId)
+      return `[${index + 1}] Document: ${document?.name ?? 'Unknown'} (passage ${passage.position + 1})\n${passage.text}\n---`
+    })
+    .join('\n')
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { extractSnippet, extractSnippets, matchesQuery, withEllipses } from '@/lib/search/snippets'
+
+const highlighted = (text: string, ranges: { start: number; end: number }[]) =>
+  ranges.map(range => text.slice(range.start, range.end))
+
+const filler = (words: number) => Array.from({ length: words }, (_, i) => `word${i}`).join(' ')
+
+describe('extractSnippet', () => {
+  it('highlights every form of the query terms', () => {
+    const snippet = extractSnippet('Reports were reported by the reporting team.', 'report')!
+
+    expect(highlighted(snippet.text, snippet.highlights)).toEqual(['Reports', 'reported', 'reporting'])
+  })
+
+  it('cuts a window around the match out of a long text', () => {
+    const text = `${filler(100)} The budget was approved. ${filler(100)}`
+    const snippet = extractSnippet(text, 'budget', { windowSize: 80 })!
+
+    expect(snippet.text).toContain('The budget was approved.')
+    expect(snippet.text.length).toBeLessThanOrEqual(100)
+    expect(text.slice(snippet.start, snippet.end)).toBe(snippet.text)
+    expect(snippet.truncatedStart).toBe(true)
+    expect(snippet.truncatedEnd).toBe(true)
+    expect(highlighted(snippet.text, snippet.highlights)).toEqual(['budget'])
+  })
+
+  it('falls back to the opening of the text without highlights', () => {
+    const snippet = extractSnippet(`Opening words ${filler(100)}`, 'budget', { windowSize: 40 })!
+
+    expect(snippet.text.startsWith('Opening words')).toBe(true)
+    expect(snippet.highlights).toEqual([])
+    expect(snippet.truncatedStart).toBe(false)
+  })
+})
+
+describe('extractSnippets', () => {
+  it('prefers the window with the most distinct terms', () => {
+    const text = `Budget budget budget. ${filler(60)} Budget and audit together. ${filler(60)} Audit alone.`
+    const [snippet] = extractSnippets(text, 'budget audit', { windowSize: 40, mergeDistance: 20 })
+
+    expect(snippet.text).toContain('Budget and audit together')
+  })
+
+  it('returns several windows in text order', () => {
+    const text = `Audit first. ${filler(60)} Budget and audit together. ${filler(60)} Budget last.`
+    const snippets = extractSnippets(text, 'budget audit', { maxSnippets: 3, windowSize: 40, mergeDistance: 20 })
+
+    expect(snippets).toHaveLength(3)
+    expect(snippets.map(snippet => snippet.start)).toEqual([...snippets.map(snippet => snippet.start)].sort((a, b) => a - b))
+    expect(snippets[0].text).toContain('Audit first')
+  })
+})
+
+describe('withEllipses', () => {
+  it('shifts the highlights past the leading ellipsis', () => {
+    const text = `${filler(50)} budget ${filler(50)}`
+    const excerpt = withEllipses(extractSnippet(text, 'budget', { windowSize: 40 })!)
+
+    expect(excerpt.text.startsWith('...')).toBe(true)
+    expect(excerpt.text.endsWith('...')).toBe(true)
+    expect(highlighted(excerpt.text, excerpt.highlights)).toEqual(['budget'])
+  })
+})
+
+describe('matchesQuery', () => {
+  it('matches on stems only', () => {
+    expect(matchesQuery('Quarterly reporting', 'reports')).toBe(true)
+    expect(matchesQuery('Quarterly figures', 'reports')).toBe(false)
+  })
+})
@@ -0,0 +1,168 @@
+import { foldWord, stem, tokenize, wordMatches } from '@/lib/search/tokenizer'
+import type { HighlightRange } from '@/types'
+
+export interface Snippet {
+  text: string
+  // Offsets of the snippet within the source text
+  start: number
+  end: number
+  // Matched terms, relative to `text`
+  highlights: HighlightRange[]
+  truncatedStart: boolean
+  truncatedEnd: boolean
+}
+
+export interface SnippetOptions {
+  maxSnippets?: number
+  windowSize?: number
+  // Hits closer together than this many characters belong to the same window
+  mergeDistance?: number
+}
+
+interface Cluster {
+  hits: HighlightRange[]
+  terms: Set<string>
+}
+
+const DEFAULT_WINDOW_SIZE = 240
+const DEFAULT_MERGE_DISTANCE = 60
+
+/**
+ * Find every occurrence of a query term in `text`, matching on stems so
+ * "report" also highlights "reports" and "reporting".
+ */
+export function findTermHits(text: string, query: string): (HighlightRange & { term: string })[] {
+  const stems = new Set(tokenize(query))
+  if (stems.size === 0) return []
+
+  const hits: (HighlightRange & { term: string })[] = []
+  for (const match of wordMatches(text)) {
+    const term = stem(foldWord(match[0]))
+    if (stems.has(term)) {
+      hits.push({ start: match.index, end: match.index + match[0].length, term })
+    }
+  }
+  return hits
+}
+
+function clusterHits(hits: (HighlightRange & { term: string })[], mergeDistance: number): Cluster[] {
+  const clusters: Cluster[] = []
+  for (const hit of hits) {
+    const current = clusters[clusters.length - 1]
+    const last = current?.hits[current.hits.length - 1]
+    if (current && last && hit.start - last.end <= mergeDistance) {
+      current.hits.push(hit)
+      current.terms.add(hit.term)
+    } else {
+      clusters.push({ hits: [hit], terms: new Set([hit.term]) })
+    }
+  }
+  return clusters
+}
+
+// Distinct terms matter more than repeats of the same term
+function clusterScore(cluster: Cluster) {
+  return cluster.terms.size * 10 + cluster.hits.length
+}
+
+function snapToWord(text: string, index: number, direction: -1 | 1) {
+  let position = Math.min(Math.max(index, 0), text.length)
+  while (position > 0 && position < text.length && /\S/.test(text[position - 1]) && /\S/.test(text[position])) {
+    position += direction
+  }
+  return position
+}
+
+function toSnippet(text: string, start: number, end: number, hits: HighlightRange[]): Snippet {
+  const raw = text.slice(start, end)
+  const leading = raw.length - raw.trimStart().length
+  const snippetText = raw.trim()
+  const offset = start + leading
+
+  return {
+    text: snippetText,
+    start: offset,
+    end: offset + snippetText.length,
+    highlights: hits
+      .filter(hit => hit.start >= offset && hit.end <= offset + snippetText.length)
+      .map(hit => ({ start: hit.start - offset, end: hit.end - offset })),
+    truncatedStart: offset > 0,
+    truncatedEnd: offset + snippetText.length < text.length
+  }
+}
+
+/**
+ * Pick the windows of `text` that best match the query and return them in
+ * document order, with the matched terms marked for highlighting. When
+ * nothing matches, the opening of the text is returned without highlights.
+ */
+export function extractSnippets(text: string, query: string, options: SnippetOptions = {}): Snippet[] {
+  const maxSnippets = options.maxSnippets ?? 1
+  const windowSize = options.windowSize ?? DEFAULT_WINDOW_SIZE
+  const mergeDistance = options.mergeDistance ?? DEFAULT_MERGE_DISTANCE
+
+  if (!text) return []
+
+  const hits = findTermHits(text, query)
+  if (hits.length === 0) {
+    return [toSnippet(text, 0, snapToWord(text, windowSize, -1) || Math.min(windowSize, text.length), [])]
+  }
+
+  const best = clusterHits(hits, mergeDistance)
+    .sort((a, b) => clusterScore(b) - clusterScore(a))
+    .slice(0, maxSnippets)
+
+  // Center a window on each cluster, then merge windows that overlap
+  const windows = best
+    .map(cluster => {
+      const first = cluster.hits[0].start
+      const last = cluster.hits[cluster.hits.length - 1].end
+      const padding = Math.max(windowSize - (last - first), 0) / 2
+      return {
+        start: snapToWord(text, Math.floor(first - padding), -1),
+        end: snapToWord(text, Math.ceil(last + padding), 1)
+      }
+    })
+    .sort((a, b) => a.start - b.start)
+    .reduce<{ start: number; end: number }[]>((merged, window) => {
+      const previous = merged[merged.length - 1]
+      if (previous && window.start <= previous.end) {
+        previous.end = Math.max(previous.end, window.end)
+      } else {
+        merged.push({ ...window })
+      }
+      return merged
+    }, [])
+
+  return windows.map(window => toSnippet(text, window.start, window.end, hits))
+}
+
+/**
+ * Convenience wrapper for the single best snippet of a text.
+ */
+export function extractSnippet(text: string, query: string, options: Omit<SnippetOptions, 'maxSnippets'> = {}): Snippet | null {
+  return extractSnippets(text, query, { ...options, maxSnippets: 1 })[0] ?? null
+}
+
+/**
+ * Add ellipses where the snippet was cut out of a longer text, shifting the
+ * highlights to match.
+ */
+export function withEllipses(snippet: Snippet): { text: string; highlights: HighlightRange[] } {
+  const prefix = snippet.truncatedStart ? '...' : ''
+  const suffix = snippet.truncatedEnd ? '...' : ''
+  return {
+    text: prefix + snippet.text + suffix,
+    highlights: snippet.highlights.map(range => ({
+      start: range.start + prefix.length,
+      end: range.end + prefix.length
+    }))
+  }
+}
+
+/**
+ * Whether the query matches anything in the text at all.
+ */
+export function matchesQuery(text: string, query: string) {
+  return findTermHits(text, query).length > 0
+}
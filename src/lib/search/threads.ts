@@ -0,0 +1,80 @@
+import type { DataServices } from '@/lib/data/types'
+import { threadTitle, type ChatTurn } from '@/lib/search/conversation'
+import type { SearchResult, SearchThread } from '@/types'
+
+export async function listThreads(data: DataServices, userId: string): Promise<SearchThread[]> {
+  return data.searchHistory.listThreads(userId)
+}
+
+export async function createThread(data: DataServices, userId: string, firstQuestion: string): Promise<SearchThread> {
+  const now = new Date().toISOString()
+  return data.searchHistory.createThread({
+    userId,
+    title: threadTitle(firstQuestion),
+    createdAt: now,
+    updatedAt: now
+  })
+}
+
+export async function deleteThread(data: DataServices, threadId: string) {
+  await data.searchHistory.deleteMessages(threadId)
+  await data.searchHistory.deleteThread(threadId)
+}
+
+/**
+ * Load a thread's messages and pair each question with the answer that
+ * followed it. A question without a stored answer is skipped.
+ */
+export async function loadTurns(data: DataServices, threadId: string): Promise<ChatTurn[]> {
+  const messages = await data.searchHistory.listMessages(threadId)
+
+  const turns: ChatTurn[] = []
+  messages.forEach((message, index) => {
+    const answer = messages[index + 1]
+    if (message.role !== 'user' || answer?.role !== 'assistant' || !answer.result) return
+
+    try {
+      turns.push({
+        id: answer.id,
+        question: message.content,
+        searchQuery: message.searchQuery || message.content,
+        result: JSON.parse(answer.result) as SearchResult,
+        contextPassageIds: answer.contextPassageIds ? JSON.parse(answer.contextPassageIds) : []
+      })
+    } catch (error) {
+      console.error('Failed to read stored answer:', answer.id, error)
+    }
+  })
+  return turns
+}
+
+/**
+ * Store one question/answer turn and bump the thread so it sorts first.
+ */
+export async function saveTurn(data: DataServices, thread: SearchThread, userId: string, turn: ChatTurn): Promise<SearchThread> {
+  const now = Date.now()
+  await data.searchHistory.createMessages([
+    {
+      threadId: thread.id,
+      userId,
+      role: 'user',
+      content: turn.question,
+      searchQuery: turn.searchQuery,
+      createdAt: new Date(now).toISOString()
+    },
+    {
+      threadId: thread.id,
+      userId,
+      role: 'assistant',
+      content: turn.result.answer,
+      result: JSON.stringify(turn.result),
+      contextPassageIds: JSON.stringify(turn.contextPassageIds),
+      // Keep the answer ordered after its question
+      createdAt: new Date(now + 1).toISOString()
+    }
+  ])
+
+  const updatedAt = new Date(now).toISOString()
+  await data.searchHistory.updateThread(thread.id, { updatedAt })
+  return { ...thread, updatedAt }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { findTermHits } from '@/lib/search/snippets'
+import { tokenize } from '@/lib/search/tokenizer'
+
+describe('tokenize', () => {
+  it('stems English words and drops stopwords', () => {
+    expect(tokenize('The reports were reported')).toEqual(['report', 'report'])
+  })
+
+  it('folds accents', () => {
+    expect(tokenize('Café CAFE')).toEqual(['cafe', 'cafe'])
+  })
+
+  it('keeps words in non-Latin scripts', () => {
+    expect(tokenize('Отчёт о продажах')).toEqual(['отчет', 'продажах'])
+    expect(tokenize('Ετήσια έκθεση')).toEqual(['ετησια', 'εκθεση'])
+  })
+
+  it('splits Chinese and Japanese into characters', () => {
+    expect(tokenize('年度报告')).toEqual(['年', '度', '报', '告'])
+    expect(tokenize('PDF報告')).toEqual(['pdf', '報', '告'])
+  })
+})
+
+describe('findTermHits', () => {
+  it('highlights the same words the ranking matches', () => {
+    const text = 'Годовой отчёт. 年度报告'
+    const hits = findTermHits(text, 'отчет 报告')
+    expect(hits.map(hit => text.slice(hit.start, hit.end))).toEqual(['отчёт', '报', '告'])
+  })
+})
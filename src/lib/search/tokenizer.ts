@@ -0,0 +1,94 @@
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own',
+  'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up',
+  'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would',
+  'you', 'your', 'yours', 'yourself', 'yourselves'
+])
+
+// Ordered longest first so the most specific suffix wins
+const SUFFIX_RULES: [suffix: string, replacement: string][] = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ousness', 'ous'],
+  ['ements', ''],
+  ['ement', ''],
+  ['ments', ''],
+  ['ment', ''],
+  ['ities', 'ity'],
+  ['ness', ''],
+  ['sses', 'ss'],
+  ['ies', 'y'],
+  ['ing', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', '']
+]
+
+const MIN_STEM_LENGTH = 3
+
+/**
+ * Lightweight suffix-stripping stemmer. It is not a full Porter stemmer but
+ * folds the common English inflections together ("reports", "reported",
+ * "reporting" -> "report") which is what matters for lexical ranking.
+ */
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /\d/.test(word)) return word
+
+  for (const [suffix, replacement] of SUFFIX_RULES) {
+    if (!word.endsWith(suffix)) continue
+    if (suffix === 's' && word.endsWith('ss')) return word
+
+    const stemmed = word.slice(0, -suffix.length) + replacement
+    if (stemmed.length < MIN_STEM_LENGTH) return word
+
+    // "running" -> "runn" -> "run"
+    if ((suffix === 'ing' || suffix === 'ed') && /([^aeiouslz])\1$/.test(stemmed)) {
+      return stemmed.slice(0, -1)
+    }
+    return stemmed
+  }
+
+  return word
+}
+
+export function isStopword(word: string) {
+  return STOPWORDS.has(word)
+}
+
+// Letters and digits in any script. Chinese and Japanese are written without
+// spaces, so each of their characters counts as a word of its own.
+const WORD_PATTERN = /[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}]|(?:(?![\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}])[\p{L}\p{N}])+/gu
+const IDEOGRAPH = /^[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}]$/u
+
+// Words of `text` with their offsets, as ranking and highlighting see them
+export function wordMatches(text: string) {
+  return text.matchAll(WORD_PATTERN)
+}
+
+// Lowercase and without accents, so "Café" and "cafe" are the same word
+export function foldWord(word: string) {
+  return word.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').normalize('NFC')
+}
+
+function isTerm(word: string) {
+  return (word.length > 1 || IDEOGRAPH.test(word)) && !isStopword(word)
+}
+
+/**
+ * Split text into lowercase, stemmed terms with stopwords removed.
+ */
+export function tokenize(text: string): string[] {
+  return [...wordMatches(text)]
+    .map(([word]) => foldWord(word))
+    .filter(isTerm)
+    .map(stem)
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalDataServices, LOCAL_USER } from '@/lib/data/local'
+import { purgeDocument } from '@/lib/trash'
+
+// Two documents from before versioning, stored under the same name
+async function setup() {
+  const data = createLocalDataServices()
+  const fields = {
+    name: 'report.txt',
+    content: 'Report',
+    fileType: 'text/plain',
+    fileSize: 6,
+    projectId: 'project-1',
+    uploadedBy: LOCAL_USER.id,
+    visibility: 'private' as const,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  }
+  const first = await data.documents.create(fields)
+  const second = await data.documents.create(fields)
+  await data.storage.upload(new File(['Report'], 'report.txt'), 'documents/project-1/report.txt')
+  return { data, first, second }
+}
+
+describe('purgeDocument', () => {
+  it('keeps a file another document still uses', async () => {
+    const { data, first } = await setup()
+
+    await purgeDocument(data, first)
+
+    expect(await data.documents.get(first.id)).toBeNull()
+    await expect(data.storage.downloadUrl('documents/project-1/report.txt')).resolves.toBeTruthy()
+  })
+
+  it('removes the file with the last document that uses it', async () => {
+    const { data, first, second } = await setup()
+
+    await purgeDocument(data, first)
+    await purgeDocument(data, second)
+
+    await expect(data.storage.downloadUrl('documents/project-1/report.txt')).rejects.toThrow(/No file stored/)
+  })
+})
@@ -0,0 +1,176 @@
+import { loadAccessScope, loadReadableDocuments } from '@/lib/access'
+import type { DataServices } from '@/lib/data/types'
+import { canOnDocument, projectRole } from '@/lib/permissions'
+import type { Document, Project } from '@/types'
+
+export const DEFAULT_RETENTION_DAYS = 30
+
+// Retention periods offered in the trash; 0 means never purge automatically
+export const RETENTION_OPTIONS = [7, 30, 90, 0]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface Trash {
+  projects: Project[]
+  // Documents trashed on their own; those trashed with a project are
+  // restored and purged through the project
+  documents: Document[]
+}
+
+/**
+ * When an item in the trash will be purged automatically, or null when the
+ * retention period keeps it indefinitely.
+ */
+export function purgeDate(deletedAt: string, retentionDays: number): Date | null {
+  if (retentionDays <= 0) return null
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS)
+}
+
+function isExpired(deletedAt: string, retentionDays: number, now = Date.now()) {
+  const date = purgeDate(deletedAt, retentionDays)
+  return date !== null && date.getTime() <= now
+}
+
+export async function loadRetentionDays(data: DataServices, userId: string): Promise<number> {
+  const settings = await data.settings.get(userId)
+  return settings?.trashRetentionDays ?? DEFAULT_RETENTION_DAYS
+}
+
+export async function saveRetentionDays(data: DataServices, userId: string, trashRetentionDays: number) {
+  await data.settings.save({ userId, trashRetentionDays, updatedAt: new Date().toISOString() })
+}
+
+/**
+ * Everything in the trash the user may restore or purge: projects they own
+ * and documents they could delete.
+ */
+export async function listTrash(data: DataServices, userId: string): Promise<Trash> {
+  const owned = await data.projects.listOwnedBy(userId)
+  const projects = owned.filter(project => project.deletedAt)
+
+  const scope = await loadAccessScope(data, userId)
+  const readable = await loadReadableDocuments(data, scope, { includeTrashed: true })
+  const documents = readable.filter(document => {
+    const project = scope.projects.find(p => p.id === document.projectId)
+    if (!document.deletedAt || !project) return false
+    return canOnDocument(userId, projectRole(userId, project, scope.memberships), 'deleteDocument', document)
+  })
+
+  return {
+    projects,
+    documents: documents.sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''))
+  }
+}
+
+export async function trashDocument(data: DataServices, document: Document, userId: string): Promise<Document> {
+  const changes = { deletedAt: new Date().toISOString(), deletedBy: userId }
+  await data.documents.update(document.id, changes)
+  return { ...document, ...changes }
+}
+
+export async function restoreDocument(data: DataServices, document: Document): Promise<Document> {
+  const changes = { deletedAt: null, deletedBy: null }
+  await data.documents.update(document.id, changes)
+  return { ...document, ...changes }
+}
+
+// Documents uploaded before versioning have no storage path of their own
+function storedPath(document: Document) {
+  return document.storagePath ?? `documents/${document.projectId}/${document.name}`
+}
+
+// Files the other documents of the project still use, trashed ones included.
+// Legacy documents with the same name share one, and restored versions share
+// the file of the version they restore.
+async function pathsInUse(data: DataServices, document: Document): Promise<Set<string>> {
+  const others = (await data.documents.listForProject(document.projectId)).filter(other => other.id !== document.id)
+  const versions = await data.documents.listVersions(others.map(other => other.id))
+  return new Set([...others.map(storedPath), ...versions.map(version => version.storagePath)])
+}
+
+/**
+ * Permanently delete a document: the stored file of every version that no
+ * other document uses, its version history, its passages and the record
+ * itself.
+ */
+export async function purgeDocument(data: DataServices, document: Document) {
+  const versions = await data.documents.listVersions([document.id])
+  const inUse = await pathsInUse(data, document)
+  const paths = new Set([...versions.map(version => version.storagePath), storedPath(document)])
+  const unused = [...paths].filter(path => !inUse.has(path))
+
+  if (unused.length > 0) await data.storage.remove(...unused)
+  await data.documents.deleteVersions(document.id)
+  await data.documents.deletePassages(document.id)
+  await data.documents.delete(document.id)
+}
+
+/**
+ * Move a project to the trash together with every document in it that is
+ * not already there.
+ */
+export async function trashProject(data: DataServices, project: Project, userId: string): Promise<Project> {
+  const changes = { deletedAt: new Date().toISOString(), deletedBy: userId }
+  const documents = await data.documents.listForProject(project.id)
+
+  await Promise.all(
+    documents
+      .filter(document => !document.deletedAt)
+      .map(document => data.documents.update(document.id, changes))
+  )
+  await data.projects.update(project.id, changes)
+  return { ...project, ...changes }
+}
+
+/**
+ * Restore a project and the documents that were trashed with it. Documents
+ * that were already in the trash before the project stay there.
+ */
+export async function restoreProject(data: DataServices, project: Project): Promise<Project> {
+  const documents = await data.documents.listForProject(project.id)
+  const restored = { deletedAt: null, deletedBy: null }
+
+  await Promise.all(
+    documents
+      .filter(document => document.deletedAt === project.deletedAt)
+      .map(document => data.documents.update(document.id, restored))
+  )
+  await data.projects.update(project.id, restored)
+  return { ...project, ...restored }
+}
+
+/**
+ * Permanently delete a project with all of its documents, members and
+ * invitations.
+ */
+export async function purgeProject(data: DataServices, project: Project) {
+  const documents = await data.documents.listForProject(project.id)
+
+  for (const document of documents) {
+    await purgeDocument(data, document)
+  }
+  await data.members.deleteInvitationsForProject(project.id)
+  await data.members.deleteForProject(project.id)
+  await data.projects.delete(project.id)
+}
+
+/**
+ * Purge what the user moved to the trash longer ago than their retention
+ * period. Each user's setting applies to the items they deleted.
+ */
+export async function purgeExpired(data: DataServices, userId: string): Promise<number> {
+  const retentionDays = await loadRetentionDays(data, userId)
+  if (retentionDays <= 0) return 0
+
+  const trash = await listTrash(data, userId)
+  const expired = <T extends Project | Document>(items: T[]) => items.filter(item =>
+    item.deletedBy === userId && item.deletedAt && isExpired(item.deletedAt, retentionDays)
+  )
+
+  const projects = expired(trash.projects)
+  const documents = expired(trash.documents)
+  for (const project of projects) await purgeProject(data, project)
+  for (const document of documents) await purgeDocument(data, document)
+
+  return projects.length + documents.length
+}
@@ -0,0 +1,11 @@
+import { createContext } from 'react'
+import type { UploadQueue } from '@/hooks/use-upload-queue'
+import type { Document } from '@/types'
+
+export interface Uploads extends UploadQueue {
+  // Calls the listener with each document an upload stores, new or as a
+  // new version; returns a function that stops listening
+  onUploaded(listener: (document: Document) => void): () => void
+}
+
+export const UploadsContext = createContext<Uploads | null>(null)
@@ -0,0 +1,68 @@
+/**
+ * A file picked or dropped for upload, with its path relative to the folder
+ * it was picked from (just the file name for loose files).
+ */
+export interface PickedFile {
+  file: File
+  path: string
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject))
+}
+
+function entryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+async function collectEntry(entry: FileSystemEntry, files: PickedFile[]) {
+  if (entry.isFile) {
+    const file = await entryFile(entry as FileSystemFileEntry)
+    files.push({ file, path: entry.fullPath.replace(/^\//, '') })
+    return
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    // readEntries returns a directory's contents in batches until it is empty
+    let batch = await readEntries(reader)
+    while (batch.length > 0) {
+      for (const child of batch) await collectEntry(child, files)
+      batch = await readEntries(reader)
+    }
+  }
+}
+
+/**
+ * Every file in a drop, descending into dropped folders. Hidden files such
+ * as `.DS_Store` are skipped.
+ */
+export async function filesFromDrop(dataTransfer: DataTransfer): Promise<PickedFile[]> {
+  // Entries must be taken synchronously, before the drop event ends
+  const entries = [...dataTransfer.items]
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+
+  const files: PickedFile[] = []
+  if (entries.every(entry => entry === null)) {
+    // No entry API: fall back to the flat file list
+    files.push(...[...dataTransfer.files].map(file => ({ file, path: file.name })))
+  } else {
+    for (const entry of entries) {
+      if (entry) await collectEntry(entry, files)
+    }
+  }
+
+  return files.filter(({ file }) => !file.name.startsWith('.'))
+}
+
+export function filesFromInput(fileList: FileList | null): PickedFile[] {
+  return [...(fileList ?? [])]
+    .filter(file => !file.name.startsWith('.'))
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+}
+
+// The folder part of a picked file's path, empty for loose files
+export function folderOf(path: string) {
+  return path.split('/').slice(0, -1).join('/')
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { createLocalDataServices, LOCAL_USER } from '@/lib/data/local'
+import { createIngestionServices } from '@/lib/ingestion/services'
+import type { IngestionServices } from '@/lib/ingestion/types'
+import { setArchived } from '@/lib/projects'
+import { uploadFile } from '@/lib/upload/ingest'
+
+async function setup() {
+  const data = createLocalDataServices()
+  const now = new Date().toISOString()
+  const project = await data.projects.create({ name: 'Archive', ownerId: LOCAL_USER.id, createdAt: now, updatedAt: now })
+  // Text is read directly since tests have no workers to extract or index in
+  const services: IngestionServices = {
+    ...createIngestionServices(data),
+    extractor: { extract: file => file.text() },
+    indexer: { async index() {} }
+  }
+  const target = { projectId: project.id, visibility: 'team' as const, uploadedBy: LOCAL_USER.id }
+  const upload = (path: string, content: string) =>
+    uploadFile(data, services, { file: new File([content], path.split('/').pop()!, { type: 'text/plain' }), path }, target)
+  return { data, project, upload }
+}
+
+describe('uploadFile', () => {
+  it('adds a file with the name of a document in the same folder as a new version', async () => {
+    const { upload } = await setup()
+    const first = await upload('reports/notes.txt', 'One')
+
+    const second = await upload('reports/notes.txt', 'Two')
+    const elsewhere = await upload('drafts/notes.txt', 'Three')
+
+    expect(second.isNewVersion).toBe(true)
+    expect(second.document.id).toBe(first.document.id)
+    expect(elsewhere.isNewVersion).toBe(false)
+  })
+
+  it('starts a new document when the same-name one is in the trash', async () => {
+    const { data, upload } = await setup()
+    const first = await upload('notes.txt', 'One')
+    await data.documents.update(first.document.id, { deletedAt: new Date().toISOString() })
+
+    const second = await upload('notes.txt', 'Two')
+
+    expect(second.isNewVersion).toBe(false)
+  })
+
+  it('refuses uploads into an archived project', async () => {
+    const { data, project, upload } = await setup()
+    await setArchived(data, project, true)
+
+    await expect(upload('notes.txt', 'One')).rejects.toThrow(/archived/)
+  })
+})
@@ -0,0 +1,37 @@
+import { filterReadableDocuments, loadAccessScope } from '@/lib/access'
+import type { DataServices } from '@/lib/data/types'
+import { ingestFile } from '@/lib/ingestion/pipeline'
+import type { IngestionCallbacks, IngestionResult, IngestionServices, IngestionTarget } from '@/lib/ingestion/types'
+import { assertCan, projectRole } from '@/lib/permissions'
+import { isArchived } from '@/lib/projects'
+import { folderOf, type PickedFile } from '@/lib/upload/files'
+import { findSameNameDocument } from '@/lib/versions'
+
+/**
+ * Upload a picked file into a project for the signed-in user. Access is
+ * checked when the upload starts rather than when it was queued, since the
+ * queue outlives the page it was filled from. A file with the same name as a
+ * document in the same folder becomes a new version of it.
+ */
+export async function uploadFile(
+  data: DataServices,
+  services: IngestionServices,
+  picked: PickedFile,
+  target: IngestionTarget,
+  callbacks: IngestionCallbacks = {}
+): Promise<IngestionResult> {
+  const user = await data.auth.me()
+  const scope = await loadAccessScope(data, user.id)
+  const project = scope.projects.find(p => p.id === target.projectId)
+  assertCan(project ? projectRole(user.id, project, scope.memberships) : null, 'uploadDocument')
+  if (project && isArchived(project)) throw new Error(`${project.name} is archived and takes no uploads`)
+
+  const documents = filterReadableDocuments(scope, await data.documents.listForProject(target.projectId))
+  const existing = findSameNameDocument(
+    documents.filter(document => !document.deletedAt),
+    target.projectId,
+    picked.file.name,
+    folderOf(picked.path)
+  )
+  return ingestFile(picked, target, services, { existing, ...callbacks })
+}
@@ -0,0 +1,37 @@
+import { formatForExtension, SUPPORTED_EXTENSIONS } from '@/lib/formats/registry'
+
+export const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+
+/**
+ * Why a file with this name and size cannot be uploaded, or null when it
+ * can. Checked before anything is read, so it also applies to ZIP entries;
+ * the content is checked against the name later, in `detectFileType`.
+ */
+export function rejectionReason(fileName: string, size: number): string | null {
+  if (!fileName) {
+    return 'File name is missing'
+  }
+
+  if (size === 0) {
+    return 'Selected file is empty'
+  }
+
+  if (!formatForExtension(fileName)) {
+    return `Unsupported file type. Please upload: ${SUPPORTED_EXTENSIONS.join(', ').toUpperCase()} files`
+  }
+
+  if (size > MAX_FILE_SIZE) {
+    return 'File size too large. Maximum size is 50MB'
+  }
+
+  return null
+}
+
+/**
+ * Check that a file can be uploaded, throwing an error with a user-facing
+ * message when it cannot.
+ */
+export function validateFile(file: File) {
+  const reason = rejectionReason(file.name, file.size)
+  if (reason) throw new Error(reason)
+}
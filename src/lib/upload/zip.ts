@@ -0,0 +1,87 @@
+import { unzip, type UnzipFileInfo } from 'fflate'
+import type { PickedFile } from '@/lib/upload/files'
+import { mimeTypeFor } from '@/lib/formats/registry'
+import { rejectionReason } from '@/lib/upload/validation'
+
+export interface SkippedEntry {
+  archive: string
+  path: string
+  reason: string
+}
+
+export interface UnpackedArchive {
+  files: PickedFile[]
+  skipped: SkippedEntry[]
+}
+
+// Compression methods fflate can read: stored and deflate
+const SUPPORTED_COMPRESSION = [0, 8]
+
+// The archive is read into memory whole, and so is everything unpacked
+// from it, so both are capped
+export const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024 // 200MB
+export const MAX_UNPACKED_SIZE = 500 * 1024 * 1024 // 500MB
+
+export function isZipFile(file: File) {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip'
+}
+
+// Folders, macOS resource forks and hidden files are left out silently
+function isIgnored(path: string) {
+  const segments = path.split('/')
+  return path.endsWith('/') || segments[0] === '__MACOSX' || segments.some(segment => segment.startsWith('.'))
+}
+
+export function unzipAsync(data: Uint8Array, filter: (info: UnzipFileInfo) => boolean) {
+  return new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, { filter }, (error, files) => (error ? reject(error) : resolve(files)))
+  })
+}
+
+/**
+ * Unpack a ZIP archive in the browser. Entries are checked against the
+ * upload rules before they are decompressed; those that fail, or that would
+ * take the unpacked total past `MAX_UNPACKED_SIZE`, are reported in
+ * `skipped`. Paths keep the archive's folder structure.
+ */
+export async function unpackZip(archive: File): Promise<UnpackedArchive> {
+  if (archive.size > MAX_ARCHIVE_SIZE) {
+    throw new Error('Archive too large. Maximum size is 200MB')
+  }
+
+  const skipped: SkippedEntry[] = []
+  const skip = (path: string, reason: string) => skipped.push({ archive: archive.name, path, reason })
+  let unpackedSize = 0
+
+  const data = new Uint8Array(await archive.arrayBuffer())
+  const entries = await unzipAsync(data, info => {
+    if (isIgnored(info.name)) return false
+
+    const fileName = info.name.split('/').pop() ?? ''
+    const reason = rejectionReason(fileName, info.originalSize)
+    if (reason) {
+      skip(info.name, reason)
+      return false
+    }
+    if (!SUPPORTED_COMPRESSION.includes(info.compression)) {
+      skip(info.name, 'Compressed with an unsupported method')
+      return false
+    }
+    if (unpackedSize + info.originalSize > MAX_UNPACKED_SIZE) {
+      skip(info.name, 'Archive unpacks to more than 500MB')
+      return false
+    }
+    unpackedSize += info.originalSize
+    return true
+  })
+
+  const files = Object.entries(entries).map(([path, content]) => {
+    const fileName = path.split('/').pop() ?? path
+    return {
+      file: new File([content], fileName, { type: mimeTypeFor(fileName) }),
+      path
+    }
+  })
+
+  return { files, skipped }
+}
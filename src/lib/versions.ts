@@ -0,0 +1,208 @@
+import type { DataServices } from '@/lib/data/types'
+import { replacePassages } from '@/lib/search/passages'
+import type { Document, DocumentVersion } from '@/types'
+
+export interface VersionInput {
+  file: File
+  content: string
+  // Type to record for the file; defaults to the browser-reported one
+  fileType?: string
+  uploadedBy: string
+  // Upload progress of the file, in percent
+  onProgress?: (percent: number) => void
+}
+
+export interface NewDocumentInput extends VersionInput {
+  projectId: string
+  visibility: Document['visibility']
+  folder?: string
+}
+
+/**
+ * Every version gets its own storage path so an upload never replaces the
+ * blob of an earlier one, even when files of the same name from different
+ * folders are uploaded at the same moment.
+ */
+export function versionStoragePath(projectId: string, fileName: string, version: number) {
+  return `documents/${projectId}/v${version}-${crypto.randomUUID()}/${fileName}`
+}
+
+/**
+ * The document a new upload should become a version of: the most recently
+ * updated document with the same name in the same project and folder.
+ */
+export function findSameNameDocument(documents: Document[], projectId: string, fileName: string, folder = '') {
+  const name = fileName.toLowerCase()
+  return documents
+    .filter(doc => doc.projectId === projectId && doc.name.toLowerCase() === name && (doc.folder ?? '') === folder)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+}
+
+/**
+ * The document's current file described as a version. Documents uploaded
+ * before versioning have no stored versions, so this stands in for them.
+ */
+function currentAsVersion(document: Document): DocumentVersion {
+  const version = document.version ?? 1
+  return {
+    id: `${document.id}_v${version}`,
+    documentId: document.id,
+    projectId: document.projectId,
+    version,
+    fileType: document.fileType,
+    fileSize: document.fileSize,
+    content: document.content,
+    storagePath: document.storagePath ?? `documents/${document.projectId}/${document.name}`,
+    fileUrl: document.fileUrl,
+    uploadedBy: document.uploadedBy,
+    createdAt: document.updatedAt
+  }
+}
+
+async function storedVersions(data: DataServices, documentId: string): Promise<DocumentVersion[]> {
+  return data.documents.listVersions([documentId])
+}
+
+/**
+ * Versions of a document, newest first.
+ */
+export async function listVersions(data: DataServices, document: Document): Promise<DocumentVersion[]> {
+  const versions = await storedVersions(data, document.id)
+  return versions.length > 0 ? versions : [currentAsVersion(document)]
+}
+
+/**
+ * Versions of several documents in one query, in no particular order.
+ */
+export async function listVersionsOf(data: DataServices, documents: Document[]): Promise<DocumentVersion[]> {
+  const stored = await data.documents.listVersions(documents.map(document => document.id))
+  const versioned = new Set(stored.map(version => version.documentId))
+  return [...stored, ...documents.filter(document => !versioned.has(document.id)).map(currentAsVersion)]
+}
+
+export async function versionFileUrl(data: DataServices, version: DocumentVersion): Promise<string> {
+  if (version.fileUrl) return version.fileUrl
+  return data.storage.downloadUrl(version.storagePath)
+}
+
+async function uploadVersionFile(
+  data: DataServices,
+  projectId: string,
+  file: File,
+  version: number,
+  onProgress?: (percent: number) => void
+) {
+  const storagePath = versionStoragePath(projectId, file.name, version)
+  const { url } = await data.storage.upload(file, storagePath, { onProgress })
+  return { storagePath, fileUrl: url }
+}
+
+/**
+ * Upload a new document as its first version. Its passages are not indexed
+ * yet; callers follow up with `savePassages`.
+ */
+export async function createDocument(data: DataServices, input: NewDocumentInput): Promise<Document> {
+  const { file, content, fileType, projectId, visibility, uploadedBy, folder, onProgress } = input
+  const { storagePath, fileUrl } = await uploadVersionFile(data, projectId, file, 1, onProgress)
+  const now = new Date().toISOString()
+
+  const document = await data.documents.create({
+    name: file.name,
+    content,
+    fileType: fileType ?? file.type,
+    fileSize: file.size,
+    projectId,
+    uploadedBy,
+    visibility,
+    storagePath,
+    fileUrl,
+    folder: folder || undefined,
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  await data.documents.createVersion(currentAsVersion(document))
+  return document
+}
+
+async function makeCurrent(data: DataServices, document: Document, version: DocumentVersion): Promise<Document> {
+  const changes = {
+    content: version.content,
+    fileType: version.fileType,
+    fileSize: version.fileSize,
+    storagePath: version.storagePath,
+    fileUrl: version.fileUrl,
+    version: version.version,
+    updatedAt: version.createdAt
+  }
+  await data.documents.update(document.id, changes)
+  return { ...document, ...changes }
+}
+
+/**
+ * Versions the document already has, recording its current file first when
+ * it predates versioning so the history starts with the original upload.
+ */
+async function existingVersions(data: DataServices, document: Document): Promise<DocumentVersion[]> {
+  const versions = await storedVersions(data, document.id)
+  if (versions.length > 0) return versions
+
+  const original = currentAsVersion(document)
+  await data.documents.createVersion(original)
+  return [original]
+}
+
+/**
+ * Upload a file as the newest version of a document. As with
+ * `createDocument`, re-indexing is left to the caller (`replacePassages`).
+ */
+export async function addVersion(data: DataServices, document: Document, input: VersionInput): Promise<Document> {
+  const { file, content, fileType, uploadedBy, onProgress } = input
+  const versions = await existingVersions(data, document)
+  const number = Math.max(...versions.map(version => version.version)) + 1
+  const { storagePath, fileUrl } = await uploadVersionFile(data, document.projectId, file, number, onProgress)
+
+  const version = await data.documents.createVersion({
+    id: `${document.id}_v${number}`,
+    documentId: document.id,
+    projectId: document.projectId,
+    version: number,
+    fileType: fileType ?? file.type,
+    fileSize: file.size,
+    content,
+    storagePath,
+    fileUrl,
+    uploadedBy,
+    createdAt: new Date().toISOString()
+  })
+
+  return makeCurrent(data, document, version)
+}
+
+/**
+ * Restore an earlier version by adding it again as the newest one. The
+ * stored file is shared, so nothing is uploaded and no history is lost.
+ */
+export async function restoreVersion(
+  data: DataServices,
+  document: Document,
+  restored: DocumentVersion,
+  restoredBy: string
+): Promise<Document> {
+  const versions = await existingVersions(data, document)
+  const number = Math.max(...versions.map(version => version.version)) + 1
+
+  const version = await data.documents.createVersion({
+    ...restored,
+    id: `${document.id}_v${number}`,
+    version: number,
+    uploadedBy: restoredBy,
+    restoredFrom: restored.version,
+    createdAt: new Date().toISOString()
+  })
+
+  const updated = await makeCurrent(data, document, version)
+  await replacePassages(data, updated)
+  return updated
+}
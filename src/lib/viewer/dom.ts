@@ -0,0 +1,52 @@
+import { findMatches } from '@/lib/viewer/find'
+
+const MARK_ATTRIBUTE = 'data-viewer-mark'
+
+/**
+ * Remove marks previously added by `markText`, restoring the original text
+ * nodes.
+ */
+export function clearMarks(root: HTMLElement) {
+  root.querySelectorAll(`mark[${MARK_ATTRIBUTE}]`).forEach(mark => {
+    mark.replaceWith(document.createTextNode(mark.textContent ?? ''))
+  })
+  root.normalize()
+}
+
+/**
+ * Wrap every occurrence of `term` inside the rendered content in a <mark>
+ * and return the marks in document order. Occurrences that span several
+ * elements (e.g. half bold, half plain) are not found.
+ */
+export function markText(root: HTMLElement, term: string, className: string, limit = Infinity): HTMLElement[] {
+  const marks: HTMLElement[] = []
+  if (!term.trim()) return marks
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const nodes: Text[] = []
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text)
+
+  for (const node of nodes) {
+    if (marks.length >= limit) break
+    const text = node.data
+    const matches = findMatches(text, term).slice(0, limit - marks.length)
+    if (matches.length === 0) continue
+
+    const fragment = document.createDocumentFragment()
+    let cursor = 0
+    for (const match of matches) {
+      fragment.append(text.slice(cursor, match.start))
+      const mark = document.createElement('mark')
+      mark.setAttribute(MARK_ATTRIBUTE, '')
+      mark.className = className
+      mark.textContent = text.slice(match.start, match.end)
+      fragment.append(mark)
+      marks.push(mark)
+      cursor = match.end
+    }
+    fragment.append(text.slice(cursor))
+    node.replaceWith(fragment)
+  }
+
+  return marks
+}
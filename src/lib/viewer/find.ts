@@ -0,0 +1,47 @@
+import type { HighlightRange } from '@/types'
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Case-insensitive matches of a literal search term.
+ */
+export function findMatches(text: string, term: string): HighlightRange[] {
+  const needle = term.trim()
+  if (!needle) return []
+
+  const pattern = new RegExp(escapeRegExp(needle), 'gi')
+  return [...text.matchAll(pattern)].map(match => ({
+    start: match.index,
+    end: match.index + match[0].length
+  }))
+}
+
+/**
+ * A short phrase from the start of a passage, used to find it again in
+ * renderings whose text no longer lines up with the extracted offsets.
+ */
+export function passageAnchor(passageText: string, words = 6) {
+  return passageText
+    .replace(/[#*_`>[\]()]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, words)
+    .join(' ')
+}
+
+// Collapse whitespace so text from different renderings can be compared
+export function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ')
+}
+
+/**
+ * Find-in-document state shared by the viewers. `activeMatch` is an index
+ * into the matches the viewer reports through `onMatchCount`.
+ */
+export interface FindProps {
+  findTerm: string
+  activeMatch: number
+  onMatchCount: (count: number) => void
+}
@@ -0,0 +1,26 @@
+import type { DataServices } from '@/lib/data/types'
+import { formatOf } from '@/lib/formats/registry'
+import type { Document } from '@/types'
+
+export type ViewerKind = 'pdf' | 'markdown' | 'text'
+
+/**
+ * How a document is displayed. RTF and Word files are shown as their
+ * extracted text since the browser cannot render them directly.
+ */
+export function viewerKind(document: Document): ViewerKind {
+  const format = formatOf(document)
+  if (format?.id === 'pdf') return 'pdf'
+  if (format?.id === 'md') return 'markdown'
+  return 'text'
+}
+
+/**
+ * Where the original file can be fetched from. Documents uploaded before the
+ * URL was stored fall back to their conventional storage path.
+ */
+export async function documentFileUrl(data: DataServices, document: Document): Promise<string> {
+  if (document.fileUrl) return document.fileUrl
+  const path = document.storagePath ?? `documents/${document.projectId}/${document.name}`
+  return data.storage.downloadUrl(path)
+}
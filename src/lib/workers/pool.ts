@@ -0,0 +1,145 @@
+import type { TaskKind, TaskOf, TaskResults, WorkerRequest, WorkerResponse } from '@/lib/workers/protocol'
+
+export interface TaskOptions {
+  // Aborting cancels the task, stopping its worker if it already started
+  signal?: AbortSignal
+  onProgress?: (percent: number) => void
+}
+
+interface Job {
+  id: number
+  task: TaskOf<TaskKind>
+  options: TaskOptions
+  resolve: (result: TaskResults[TaskKind]) => void
+  reject: (error: unknown) => void
+}
+
+interface Slot {
+  worker: Worker
+  job: Job | null
+}
+
+export interface WorkerPool {
+  run<K extends TaskKind>(task: TaskOf<K>, options?: TaskOptions): Promise<TaskResults[K]>
+  terminate(): void
+}
+
+export function cancelledError() {
+  return new DOMException('The task was cancelled', 'AbortError')
+}
+
+export function isCancelled(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Transfer file contents instead of copying them into the worker
+function transferables(task: TaskOf<TaskKind>): Transferable[] {
+  return task.kind === 'extract' ? [task.data] : []
+}
+
+/**
+ * Run tasks on up to `size` workers made by `spawn`, queueing the rest.
+ * A worker that fails or whose task is cancelled is replaced, since a
+ * running extraction cannot be interrupted any other way.
+ */
+export function createWorkerPool(spawn: () => Worker, size: number): WorkerPool {
+  const slots: Slot[] = []
+  const queue: Job[] = []
+  let nextId = 0
+
+  const finish = (slot: Slot) => {
+    slot.job = null
+    dispatch()
+  }
+
+  const replace = (slot: Slot) => {
+    slot.worker.terminate()
+    slots.splice(slots.indexOf(slot), 1)
+    dispatch()
+  }
+
+  const createSlot = () => {
+    const slot: Slot = { worker: spawn(), job: null }
+    slot.worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+      const job = slot.job
+      if (!job || data.id !== job.id) return
+
+      if (data.type === 'progress') {
+        job.options.onProgress?.(data.percent)
+      } else if (data.type === 'done') {
+        job.resolve(data.result)
+        finish(slot)
+      } else {
+        job.reject(new Error(data.message))
+        finish(slot)
+      }
+    }
+    slot.worker.onerror = event => {
+      event.preventDefault()
+      slot.job?.reject(new Error(event.message || 'The worker stopped unexpectedly'))
+      replace(slot)
+    }
+    slots.push(slot)
+    return slot
+  }
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      const slot = slots.find(candidate => !candidate.job) ?? (slots.length < size ? createSlot() : null)
+      if (!slot) return
+
+      const job = queue.shift()!
+      slot.job = job
+      const request: WorkerRequest = { id: job.id, task: job.task }
+      slot.worker.postMessage(request, transferables(job.task))
+    }
+  }
+
+  const cancel = (job: Job) => {
+    const queued = queue.indexOf(job)
+    if (queued !== -1) queue.splice(queued, 1)
+
+    const slot = slots.find(candidate => candidate.job === job)
+    job.reject(cancelledError())
+    if (slot) replace(slot)
+  }
+
+  return {
+    run<K extends TaskKind>(task: TaskOf<K>, options: TaskOptions = {}) {
+      return new Promise<TaskResults[K]>((resolve, reject) => {
+        if (options.signal?.aborted) {
+          reject(cancelledError())
+          return
+        }
+
+        // A long-lived signal would otherwise keep every settled job alive
+        const onAbort = () => cancel(job)
+        const settle = () => options.signal?.removeEventListener('abort', onAbort)
+        const job: Job = {
+          id: ++nextId,
+          task,
+          options,
+          resolve: result => {
+            settle()
+            resolve(result as TaskResults[K])
+          },
+          reject: error => {
+            settle()
+            reject(error)
+          }
+        }
+        options.signal?.addEventListener('abort', onAbort, { once: true })
+        queue.push(job)
+        dispatch()
+      })
+    },
+
+    terminate() {
+      queue.splice(0).forEach(job => job.reject(cancelledError()))
+      slots.splice(0).forEach(slot => {
+        slot.job?.reject(cancelledError())
+        slot.worker.terminate()
+      })
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { extractLocally } from '@/lib/extract/local'
+import { chunkText } from '@/lib/search/chunker'
+import { rankPassages } from '@/lib/search/retrieval'
+import type { TaskResults, WorkerRequest, WorkerResponse, WorkerTask } from '@/lib/workers/protocol'
+
+function run(task: WorkerTask, onProgress: (percent: number) => void): Promise<TaskResults[WorkerTask['kind']]> {
+  switch (task.kind) {
+    case 'extract':
+      return extractLocally(task.format, new Uint8Array(task.data), { encoding: task.encoding, onProgress })
+    case 'chunk':
+      return Promise.resolve(chunkText(task.text, task.options))
+    case 'rank':
+      return Promise.resolve(rankPassages(task.query, task.passages, task.limit, task.indexKey))
+  }
+}
+
+const respond = (response: WorkerResponse) => self.postMessage(response)
+
+self.onmessage = async ({ data: { id, task } }: MessageEvent<WorkerRequest>) => {
+  try {
+    const result = await run(task, percent => respond({ id, type: 'progress', percent }))
+    respond({ id, type: 'done', result })
+  } catch (error) {
+    respond({ id, type: 'error', message: error instanceof Error ? error.message : 'Processing failed' })
+  }
+}
@@ -0,0 +1,33 @@
+import type { TextEncoding } from '@/lib/formats/detect'
+import type { FileFormat } from '@/lib/formats/registry'
+import type { ChunkOptions, TextChunk } from '@/lib/search/chunker'
+import type { RankedPassage } from '@/lib/search/retrieval'
+import type { Passage } from '@/types'
+
+/**
+ * Messages exchanged with the processing workers. Each task kind maps to
+ * the type of its result in `TaskResults`.
+ */
+export type WorkerTask =
+  | { kind: 'extract'; format: FileFormat; data: ArrayBuffer; encoding?: TextEncoding }
+  | { kind: 'chunk'; text: string; options?: ChunkOptions }
+  | { kind: 'rank'; query: string; passages: Passage[]; limit?: number; indexKey?: string }
+
+export interface TaskResults {
+  extract: string
+  chunk: TextChunk[]
+  rank: RankedPassage[]
+}
+
+export type TaskKind = WorkerTask['kind']
+export type TaskOf<K extends TaskKind> = Extract<WorkerTask, { kind: K }>
+
+export interface WorkerRequest {
+  id: number
+  task: WorkerTask
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; percent: number }
+  | { id: number; type: 'done'; result: TaskResults[TaskKind] }
+  | { id: number; type: 'error'; message: string }
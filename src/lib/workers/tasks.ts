@@ -0,0 +1,17 @@
+import { createWorkerPool, type TaskOptions, type WorkerPool } from '@/lib/workers/pool'
+import type { TaskKind, TaskOf, TaskResults } from '@/lib/workers/protocol'
+
+let pool: WorkerPool | null = null
+
+/**
+ * Run a task on the shared processing workers, off the main thread.
+ * Workers are started on first use.
+ */
+export function runInWorker<K extends TaskKind>(task: TaskOf<K>, options?: TaskOptions): Promise<TaskResults[K]> {
+  pool ??= createWorkerPool(
+    () => new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' }),
+    // Leave a core for the UI; OCR and PDF parsing are memory hungry, so cap it
+    Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))
+  )
+  return pool.run(task, options)
+}
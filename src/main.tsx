@@ -1,12 +1,50 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import App from './App'
+import { DataContext } from '@/lib/data/context'
+import type { DataServices } from '@/lib/data/types'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <Toaster position="top-right" />
-    <App />
-  </React.StrictMode>,
-) 
\ No newline at end of file
+// Loaded on demand so the local build never creates a Blink client, which
+// would redirect to its sign-in page
+async function loadDataServices(): Promise<DataServices> {
+  if (import.meta.env.VITE_DATA_BACKEND === 'local') {
+    const [{ createLocalDataServices }, { createLocalStore }] = await Promise.all([
+      import('@/lib/data/local'),
+      import('@/lib/data/store')
+    ])
+    return createLocalDataServices({ store: createLocalStore({ databaseName: 'document-archive' }) })
+  }
+  const { blinkDataServices } = await import('@/lib/data/blink')
+  return blinkDataServices
+}
+
+const root = ReactDOM.createRoot(document.getElementById('root')!)
+
+loadDataServices()
+  .then(data => {
+    root.render(
+      <React.StrictMode>
+        <Toaster position="top-right" />
+        <DataContext.Provider value={data}>
+          <BrowserRouter>
+            <App />
+          </BrowserRouter>
+        </DataContext.Provider>
+      </React.StrictMode>,
+    )
+  })
+  .catch(error => {
+    // Usually a chunk that failed to download; there is no app to show without it
+    console.error('Failed to start the app:', error)
+    root.render(
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-center p-6">
+        <p className="text-gray-600">The app could not be loaded. Check your connection and try again.</p>
+        <button type="button" className="text-sm font-medium underline" onClick={() => window.location.reload()}>
+          Reload
+        </button>
+      </div>,
+    )
+  })
@@ -1,89 +1,267 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Link, useNavigationType, useSearchParams } from 'react-router-dom'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { Badge } from '@/components/ui/badge'
-import { Search, FileText, Sparkles, ExternalLink } from 'lucide-react'
-import { blink } from '@/blink/client'
-import type { Document, SearchResult, User } from '@/types'
-
-export function AISearch() {
-  const [query, setQuery] = useState('')
-  const [searchResult, setSearchResult] = useState<SearchResult | null>(null)
+import { Search, FileText, Sparkles, Square, MessageSquare, Plus, Trash2, Filter, Link as LinkIcon } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useData } from '@/hooks/use-data'
+import { loadAccessScope, loadReadableDocuments } from '@/lib/access'
+import { createPassageLoader, passageIndexKey } from '@/lib/search/passages'
+import { isCancelled } from '@/lib/workers/pool'
+import { runInWorker } from '@/lib/workers/tasks'
+import { streamSearchResult } from '@/lib/search/results'
+import { formatHistory, rewriteQuery, type ChatTurn } from '@/lib/search/conversation'
+import { listThreads, createThread, deleteThread, loadTurns, saveTurn } from '@/lib/search/threads'
+import type { TextStreamer } from '@/lib/ai/streaming'
+import { applySearchFilters, countActiveFilters, filtersFromParams, filtersToParams, type SearchFilters } from '@/lib/search/filters'
+import { SearchAnswer } from '@/components/search/SearchAnswer'
+import { SearchFiltersPanel } from '@/components/search/SearchFiltersPanel'
+import { paths } from '@/lib/routes'
+import { isArchived } from '@/lib/projects'
+import { cn } from '@/lib/utils'
+import type { Document, DocumentLocation, Project, SearchResult, SearchThread, User } from '@/types'
+
+interface AISearchProps {
+  // Defaults to the AI of the data services
+  streamer?: TextStreamer
+  onOpenDocument: (location: DocumentLocation) => void
+}
+
+interface PendingTurn {
+  question: string
+  result: SearchResult | null
+}
+
+export function AISearch({ streamer: streamerOverride, onOpenDocument }: AISearchProps) {
+  const data = useData()
+  const streamer = streamerOverride ?? data.ai
+  // Passages fetched by earlier questions, reused while their documents stay the same
+  const loadPassages = useMemo(() => createPassageLoader(data), [data])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigationType = useNavigationType()
+  const [query, setQuery] = useState(() => searchParams.get('q') ?? '')
+  const [filters, setFilters] = useState<SearchFilters>(() => filtersFromParams(searchParams))
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(filters) > 0)
+  // A question that arrived in a link, asked once there are documents to search
+  const [linkedQuestion, setLinkedQuestion] = useState(() => searchParams.get('q')?.trim() || null)
+  const [turns, setTurns] = useState<ChatTurn[]>([])
+  const [pending, setPending] = useState<PendingTurn | null>(null)
+  const [threads, setThreads] = useState<SearchThread[]>([])
+  const [activeThread, setActiveThread] = useState<SearchThread | null>(null)
   const [loading, setLoading] = useState(false)
+  const [streaming, setStreaming] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const [documents, setDocuments] = useState<Document[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
   const [user, setUser] = useState<User | null>(null)
 
-  useEffect(() => {
-    loadUserDocuments()
-  }, [])
+  // Retrieval only ever sees the documents inside the current filter scope
+  const archivedProjectIds = new Set(projects.filter(isArchived).map(project => project.id))
+  const scopedDocuments = applySearchFilters(documents, filters, archivedProjectIds)
 
-  const loadUserDocuments = async () => {
+  const loadUserDocuments = useCallback(async () => {
     try {
-      const userData = await blink.auth.me()
+      const userData = await data.auth.me()
       setUser(userData)
 
       // Load all documents the user has access to
-      const userDocuments = await blink.db.documents.list({
-        where: { uploadedBy: userData.id },
-        orderBy: { createdAt: 'desc' }
-      })
-      setDocuments(userDocuments)
+      const scope = await loadAccessScope(data, userData.id)
+      setProjects(scope.projects)
+      setDocuments(await loadReadableDocuments(data, scope))
+
+      setThreads(await listThreads(data, userData.id))
     } catch (error) {
       console.error('Failed to load documents:', error)
     }
+  }, [data])
+
+  useEffect(() => {
+    loadUserDocuments()
+    // Cancel any in-flight answer when leaving the page
+    return () => abortControllerRef.current?.abort()
+  }, [loadUserDocuments])
+
+  // Follow links and back/forward between searches while the page stays open.
+  // Replacements are this page's own updates, already reflected in state.
+  const search = searchParams.toString()
+  useEffect(() => {
+    if (navigationType === 'REPLACE') return
+    const params = new URLSearchParams(search)
+    setQuery(params.get('q') ?? '')
+    setFilters(filtersFromParams(params))
+    setLinkedQuestion(params.get('q')?.trim() || null)
+  }, [search, navigationType])
+
+  // Update the shareable search state in the address bar without adding to history
+  const replaceSearchParams = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(searchParams)
+    update(params)
+    setSearchParams(params, { replace: true })
+    return params
+  }
+
+  const updateFilters = (next: SearchFilters) => {
+    setFilters(next)
+    replaceSearchParams(params => filtersToParams(next, params))
+  }
+
+  const copySearchLink = async () => {
+    const params = replaceSearchParams(params => {
+      if (query.trim()) params.set('q', query.trim())
+      else params.delete('q')
+    })
+    try {
+      const search = params.toString()
+      await navigator.clipboard.writeText(`${window.location.origin}${paths.search}${search ? `?${search}` : ''}`)
+      toast.success('Search link copied')
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+    }
+  }
+
+  const openThread = async (thread: SearchThread) => {
+    abortControllerRef.current?.abort()
+    setActiveThread(thread)
+    setPending(null)
+    try {
+      setTurns(await loadTurns(data, thread.id))
+    } catch (error) {
+      console.error('Failed to load thread:', error)
+      toast.error('Failed to load this research session')
+    }
+  }
+
+  const startNewThread = () => {
+    abortControllerRef.current?.abort()
+    setActiveThread(null)
+    setTurns([])
+    setPending(null)
+    setQuery('')
+  }
+
+  const removeThread = async (thread: SearchThread) => {
+    try {
+      await deleteThread(data, thread.id)
+      setThreads(threads.filter(t => t.id !== thread.id))
+      if (activeThread?.id === thread.id) startNewThread()
+    } catch (error) {
+      console.error('Failed to delete thread:', error)
+      toast.error('Failed to delete this research session')
+    }
+  }
+
+  const persistTurn = async (turn: ChatTurn) => {
+    if (!user) return
+    try {
+      const thread = activeThread ?? await createThread(data, user.id, turn.question)
+      const updated = await saveTurn(data, thread, user.id, turn)
+      setActiveThread(updated)
+      setThreads(current => [updated, ...current.filter(t => t.id !== updated.id)])
+    } catch (error) {
+      console.error('Failed to save search turn:', error)
+      toast.error('Answer could not be saved to this research session')
+    }
   }
 
   const performSearch = async () => {
-    if (!query.trim() || documents.length === 0) return
+    const question = query.trim()
+    if (!question || scopedDocuments.length === 0) return
+    replaceSearchParams(params => params.set('q', question))
+
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    // Put the question back in the input if no answer comes of it, unless a
+    // newer search has taken over the input and the pending turn
+    const cancelTurn = () => {
+      if (abortControllerRef.current !== controller) return
+      setPending(null)
+      setQuery(question)
+    }
 
     setLoading(true)
+    setPending({ question, result: null })
+    setQuery('')
     try {
-      // Combine all document content for AI search
-      const documentContext = documents.map(doc => 
-        `Document: ${doc.name}\nContent: ${doc.content}\n---`
-      ).join('\n')
-
-      // Use AI to answer the question based on document content
-      const { text } = await blink.ai.generateText({
-        prompt: `Based on the following documents, answer this question: "${query}"
-
-Documents:
-${documentContext}
-
-Please provide a comprehensive answer and indicate which documents you referenced. If the answer cannot be found in the documents, say so clearly.`,
-        maxTokens: 1000
-      })
-
-      // Find relevant documents based on keywords in the query
-      const queryWords = query.toLowerCase().split(' ').filter(word => word.length > 3)
-      const relevantDocs = documents.filter(doc => {
-        const content = doc.content.toLowerCase()
-        return queryWords.some(word => content.includes(word))
-      }).slice(0, 5) // Limit to top 5 relevant documents
-
-      const result: SearchResult = {
-        answer: text,
-        sources: relevantDocs.map(doc => ({
-          documentId: doc.id,
-          documentName: doc.name,
-          relevantText: doc.content.substring(0, 200) + '...',
-          confidence: 0.8 // Simplified confidence score
-        }))
-      }
+      // Follow-ups are rewritten into standalone queries before retrieval
+      const searchQuery = await rewriteQuery(streamer, turns, question, controller.signal)
+      if (controller.signal.aborted) return cancelTurn()
+
+      // Retrieve only the passages that best match the query
+      const passages = await loadPassages(scopedDocuments)
+      // Ranked in a worker: building the BM25 index over every passage is slow,
+      // so the worker keeps it for further questions in the same scope
+      const ranked = await runInWorker(
+        { kind: 'rank', query: searchQuery, passages, indexKey: passageIndexKey(scopedDocuments) },
+        { signal: controller.signal }
+      )
+      if (controller.signal.aborted) return cancelTurn()
+
+      // Stream the answer into the AI Answer card as it is generated
+      setStreaming(true)
+      const result = await streamSearchResult(
+        streamer,
+        { query: searchQuery, ranked, documents, history: formatHistory(turns), signal: controller.signal },
+        partial => {
+          if (abortControllerRef.current === controller) setPending({ question, result: partial })
+        }
+      )
+
+      // A newer search has taken over; leave its state alone
+      if (abortControllerRef.current !== controller) return
+
+      if (!result) return cancelTurn()
 
-      setSearchResult(result)
+      const turn: ChatTurn = {
+        id: crypto.randomUUID(),
+        question,
+        searchQuery,
+        result,
+        contextPassageIds: ranked.map(({ passage }) => passage.id)
+      }
+      setTurns(current => [...current, turn])
+      setPending(null)
+      await persistTurn(turn)
     } catch (error) {
-      console.error('Search failed:', error)
+      if (!isCancelled(error)) console.error('Search failed:', error)
+      cancelTurn()
     } finally {
-      setLoading(false)
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setStreaming(false)
+        setLoading(false)
+      }
     }
   }
 
+  // The latest performSearch, for the effect below to call without rerunning
+  // whenever it is redefined
+  const performSearchRef = useRef(performSearch)
+  useEffect(() => {
+    performSearchRef.current = performSearch
+  })
+
+  // Ask the linked question once the documents have loaded. State set by the
+  // effect that follows links shows up a render later, so query and filters
+  // agree with the link by then; a question the user has since edited is
+  // dropped.
+  useEffect(() => {
+    if (!linkedQuestion || documents.length === 0) return
+    setLinkedQuestion(null)
+    if (query.trim() === linkedQuestion) performSearchRef.current()
+  }, [linkedQuestion, documents.length, query])
+
+  const stopSearch = () => {
+    abortControllerRef.current?.abort()
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
-      performSearch()
+      // Stop the current answer before asking another question
+      if (!loading) performSearch()
     }
   }
 
@@ -94,168 +272,213 @@ Please provide a comprehensive answer and indicate which documents you reference
         <p className="text-gray-600">Ask questions about your documents and get AI-powered answers with source attribution.</p>
       </div>
 
-      {/* Search Interface */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center">
-            <Sparkles className="mr-2 h-5 w-5" />
-            Ask a Question
-          </CardTitle>
-          <CardDescription>
-            Ask any question about your uploaded documents. The AI will search through your content and provide answers with sources.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <Textarea
-            placeholder="What would you like to know about your documents? (e.g., 'What are the main findings in the research papers?', 'Summarize the project requirements', etc.)"
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            onKeyPress={handleKeyPress}
-            rows={3}
-            className="resize-none"
-          />
-          <div className="flex items-center justify-between">
-            <p className="text-sm text-gray-500">
-              {documents.length} documents available for search
-            </p>
-            <Button 
-              onClick={performSearch} 
-              disabled={!query.trim() || loading || documents.length === 0}
-            >
-              {loading ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-black mr-2"></div>
-                  Searching...
-                </>
-              ) : (
-                <>
-                  <Search className="mr-2 h-4 w-4" />
-                  Search
-                </>
-              )}
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* No Documents State */}
-      {documents.length === 0 && (
-        <Card>
-          <CardContent className="flex flex-col items-center justify-center py-12">
-            <FileText className="h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No documents to search</h3>
-            <p className="text-gray-500 text-center mb-6">
-              Upload some documents first to start using AI search.
-            </p>
-            <Button variant="outline">
-              <FileText className="mr-2 h-4 w-4" />
-              Go to Documents
-            </Button>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Research Sessions */}
+        <Card className="lg:col-span-1 h-fit">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">Research Sessions</CardTitle>
+              <Button variant="ghost" size="sm" onClick={startNewThread} disabled={loading}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <CardDescription>Return to earlier investigations</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {threads.length === 0 ? (
+              <p className="text-sm text-gray-500">Your conversations will appear here.</p>
+            ) : (
+              threads.map(thread => (
+                <div
+                  key={thread.id}
+                  className={cn(
+                    "group flex items-center justify-between rounded-md px-2 py-2 text-sm cursor-pointer",
+                    activeThread?.id === thread.id ? "bg-gray-100 text-black" : "text-gray-600 hover:bg-gray-50"
+                  )}
+                  onClick={() => !loading && openThread(thread)}
+                >
+                  <div className="flex items-center min-w-0">
+                    <MessageSquare className="mr-2 h-4 w-4 shrink-0" />
+                    <span className="truncate">{thread.title}</span>
+                  </div>
+                  <button
+                    type="button"
+                    className="ml-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      removeThread(thread)
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))
+            )}
           </CardContent>
         </Card>
-      )}
 
-      {/* Search Results */}
-      {searchResult && (
-        <div className="space-y-6">
-          {/* AI Answer */}
+        <div className="lg:col-span-3 space-y-6">
+          {/* Conversation */}
+          {turns.map(turn => (
+            <div key={turn.id} className="space-y-4">
+              <QuestionBubble question={turn.question} searchQuery={turn.searchQuery} />
+              <SearchAnswer
+                answerId={turn.id}
+                result={turn.result}
+                documents={documents}
+                onOpenDocument={onOpenDocument}
+              />
+            </div>
+          ))}
+          {pending && (
+            <div className="space-y-4">
+              <QuestionBubble question={pending.question} />
+              {pending.result && (
+                <SearchAnswer
+                  answerId="pending"
+                  result={pending.result}
+                  documents={documents}
+                  streaming={streaming}
+                  onOpenDocument={onOpenDocument}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Search Interface */}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center">
-                <Sparkles className="mr-2 h-5 w-5 text-blue-600" />
-                AI Answer
+                <Sparkles className="mr-2 h-5 w-5" />
+                {turns.length > 0 ? 'Ask a Follow-up' : 'Ask a Question'}
               </CardTitle>
+              <CardDescription>
+                {turns.length > 0
+                  ? 'Follow-up questions can refer to earlier answers in this session, e.g. "and what about the 2023 version?"'
+                  : 'Ask any question about your uploaded documents. The AI will search through your content and provide answers with sources.'}
+              </CardDescription>
             </CardHeader>
-            <CardContent>
-              <div className="prose prose-sm max-w-none">
-                <p className="text-gray-900 leading-relaxed whitespace-pre-wrap">
-                  {searchResult.answer}
-                </p>
+            <CardContent className="space-y-4">
+              <Textarea
+                placeholder="What would you like to know about your documents? (e.g., 'What are the main findings in the research papers?', 'Summarize the project requirements', etc.)"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyPress={handleKeyPress}
+                rows={3}
+                className="resize-none"
+              />
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setShowFilters(!showFilters)}>
+                    <Filter className="mr-2 h-4 w-4" />
+                    Filters
+                    {countActiveFilters(filters) > 0 && ` (${countActiveFilters(filters)})`}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={copySearchLink}>
+                    <LinkIcon className="mr-2 h-4 w-4" />
+                    Copy link
+                  </Button>
+                  <p className="text-sm text-gray-500">
+                    {scopedDocuments.length === documents.length
+                      ? `${documents.length} documents available for search`
+                      : `${scopedDocuments.length} of ${documents.length} documents in scope`}
+                  </p>
+                </div>
+                {loading ? (
+                  <Button variant="outline" onClick={stopSearch}>
+                    {streaming ? (
+                      <Square className="mr-2 h-4 w-4" />
+                    ) : (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-black mr-2"></div>
+                    )}
+                    {streaming ? 'Stop' : 'Searching...'}
+                  </Button>
+                ) : (
+                  <Button 
+                    onClick={performSearch} 
+                    disabled={!query.trim() || scopedDocuments.length === 0}
+                  >
+                    <Search className="mr-2 h-4 w-4" />
+                    Search
+                  </Button>
+                )}
               </div>
+              {showFilters && (
+                <SearchFiltersPanel
+                  filters={filters}
+                  onChange={updateFilters}
+                  documents={documents}
+                  projects={projects}
+                  currentUserId={user?.id}
+                />
+              )}
             </CardContent>
           </Card>
 
-          {/* Source Documents */}
-          {searchResult.sources.length > 0 && (
+          {/* No Documents State */}
+          {documents.length === 0 && (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <FileText className="h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No documents to search</h3>
+                <p className="text-gray-500 text-center mb-6">
+                  Upload some documents first to start using AI search.
+                </p>
+                <Button variant="outline" asChild>
+                  <Link to={paths.documents}>
+                    <FileText className="mr-2 h-4 w-4" />
+                    Go to Documents
+                  </Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Example Queries */}
+          {turns.length === 0 && !pending && documents.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center">
-                  <FileText className="mr-2 h-5 w-5" />
-                  Source Documents
-                </CardTitle>
-                <CardDescription>
-                  Documents that contributed to this answer
-                </CardDescription>
+                <CardTitle>Example Questions</CardTitle>
+                <CardDescription>Try asking these types of questions</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {searchResult.sources.map((source, index) => {
-                    const document = documents.find(doc => doc.id === source.documentId)
-                    return (
-                      <div key={index} className="border border-gray-200 rounded-lg p-4">
-                        <div className="flex items-start justify-between mb-2">
-                          <div className="flex items-center space-x-2">
-                            <FileText className="h-4 w-4 text-gray-600" />
-                            <h4 className="font-medium text-black">{source.documentName}</h4>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <Badge variant="secondary">
-                              {Math.round(source.confidence * 100)}% match
-                            </Badge>
-                            <Button variant="ghost" size="sm">
-                              <ExternalLink className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </div>
-                        <p className="text-sm text-gray-600 mb-2">
-                          {document?.visibility === 'private' ? 'Private' : 'Team'} • 
-                          {document && ` ${(document.fileSize / 1024).toFixed(1)} KB`}
-                        </p>
-                        <div className="bg-gray-50 rounded p-3">
-                          <p className="text-sm text-gray-700 italic">
-                            "{source.relevantText}"
-                          </p>
-                        </div>
-                      </div>
-                    )
-                  })}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {[
+                    "What are the main topics covered in my documents?",
+                    "Summarize the key findings from the research papers",
+                    "What are the project requirements mentioned?",
+                    "List all the action items from meeting notes",
+                    "What are the common themes across all documents?",
+                    "Find information about budget or costs"
+                  ].map((example, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      className="text-left justify-start h-auto p-3"
+                      onClick={() => setQuery(example)}
+                    >
+                      <span className="text-sm">{example}</span>
+                    </Button>
+                  ))}
                 </div>
               </CardContent>
             </Card>
           )}
         </div>
-      )}
+      </div>
+    </div>
+  )
+}
 
-      {/* Example Queries */}
-      {!searchResult && documents.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Example Questions</CardTitle>
-            <CardDescription>Try asking these types of questions</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {[
-                "What are the main topics covered in my documents?",
-                "Summarize the key findings from the research papers",
-                "What are the project requirements mentioned?",
-                "List all the action items from meeting notes",
-                "What are the common themes across all documents?",
-                "Find information about budget or costs"
-              ].map((example, index) => (
-                <Button
-                  key={index}
-                  variant="outline"
-                  className="text-left justify-start h-auto p-3"
-                  onClick={() => setQuery(example)}
-                >
-                  <span className="text-sm">{example}</span>
-                </Button>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+function QuestionBubble({ question, searchQuery }: { question: string; searchQuery?: string }) {
+  return (
+    <div className="flex flex-col items-end">
+      <div className="bg-black text-white rounded-lg px-4 py-2 max-w-2xl whitespace-pre-wrap">
+        {question}
+      </div>
+      {searchQuery && searchQuery !== question && (
+        <p className="mt-1 text-xs text-gray-500">Searched for: {searchQuery}</p>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
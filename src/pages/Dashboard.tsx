@@ -1,39 +1,40 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Plus, FileText, FolderOpen, Search } from 'lucide-react'
-import { blink } from '@/blink/client'
-import type { Project, Document } from '@/types'
+import { useData } from '@/hooks/use-data'
+import { loadAccessScope, loadReadableDocuments } from '@/lib/access'
+import { paths, projectPath } from '@/lib/routes'
+import { isArchived } from '@/lib/projects'
+import type { Project, Document, DocumentLocation } from '@/types'
 
 interface DashboardProps {
-  onPageChange: (page: string) => void
+  onOpenDocument: (location: DocumentLocation) => void
 }
 
-export function Dashboard({ onPageChange }: DashboardProps) {
+export function Dashboard({ onOpenDocument }: DashboardProps) {
+  const navigate = useNavigate()
+  const data = useData()
   const [recentProjects, setRecentProjects] = useState<Project[]>([])
   const [recentDocuments, setRecentDocuments] = useState<Document[]>([])
   const [loading, setLoading] = useState(true)
 
-  useEffect(() => {
-    loadDashboardData()
-  }, [])
-
-  const loadDashboardData = async () => {
+  const loadDashboardData = useCallback(async () => {
     try {
-      const user = await blink.auth.me()
+      const user = await data.auth.me()
+      const scope = await loadAccessScope(data, user.id)
       
       // Load recent projects
-      const projects = await blink.db.projects.list({
-        where: { ownerId: user.id },
-        orderBy: { updatedAt: 'desc' },
-        limit: 5
-      })
+      const projects = scope.projects
+        .filter(project => !isArchived(project))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, 5)
       setRecentProjects(projects)
 
       // Load recent documents
-      const documents = await blink.db.documents.list({
-        where: { uploadedBy: user.id },
-        orderBy: { updatedAt: 'desc' },
+      const documents = await loadReadableDocuments(data, scope, {
+        orderBy: { field: 'updatedAt', direction: 'desc' },
         limit: 5
       })
       setRecentDocuments(documents)
@@ -42,7 +43,11 @@ export function Dashboard({ onPageChange }: DashboardProps) {
     } finally {
       setLoading(false)
     }
-  }
+  }, [data])
+
+  useEffect(() => {
+    loadDashboardData()
+  }, [loadDashboardData])
 
   if (loading) {
     return (
@@ -61,7 +66,7 @@ export function Dashboard({ onPageChange }: DashboardProps) {
 
       {/* Quick Actions */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => onPageChange('projects')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => navigate(paths.projects)}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Create Project</CardTitle>
             <FolderOpen className="h-4 w-4 text-gray-600" />
@@ -72,7 +77,7 @@ export function Dashboard({ onPageChange }: DashboardProps) {
           </CardContent>
         </Card>
 
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => onPageChange('documents')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => navigate(paths.documents)}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Upload Document</CardTitle>
             <FileText className="h-4 w-4 text-gray-600" />
@@ -83,7 +88,7 @@ export function Dashboard({ onPageChange }: DashboardProps) {
           </CardContent>
         </Card>
 
-        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => onPageChange('search')}>
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => navigate(paths.search)}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">AI Search</CardTitle>
             <Search className="h-4 w-4 text-gray-600" />
@@ -108,7 +113,7 @@ export function Dashboard({ onPageChange }: DashboardProps) {
               <h3 className="mt-2 text-sm font-medium text-gray-900">No projects</h3>
               <p className="mt-1 text-sm text-gray-500">Get started by creating a new project.</p>
               <div className="mt-6">
-                <Button onClick={() => onPageChange('projects')}>
+                <Button onClick={() => navigate(paths.projects)}>
                   <Plus className="mr-2 h-4 w-4" />
                   New Project
                 </Button>
@@ -122,7 +127,9 @@ export function Dashboard({ onPageChange }: DashboardProps) {
                     <h4 className="font-medium text-black">{project.name}</h4>
                     <p className="text-sm text-gray-600">{project.description}</p>
                   </div>
-                  <Button variant="outline" size="sm">View</Button>
+                  <Button variant="outline" size="sm" onClick={() => navigate(projectPath(project.id))}>
+                    View
+                  </Button>
                 </div>
               ))}
             </div>
@@ -143,7 +150,7 @@ export function Dashboard({ onPageChange }: DashboardProps) {
               <h3 className="mt-2 text-sm font-medium text-gray-900">No documents</h3>
               <p className="mt-1 text-sm text-gray-500">Upload your first document to get started.</p>
               <div className="mt-6">
-                <Button onClick={() => onPageChange('documents')}>
+                <Button onClick={() => navigate(paths.documents)}>
                   <Plus className="mr-2 h-4 w-4" />
                   Upload Document
                 </Button>
@@ -162,7 +169,9 @@ export function Dashboard({ onPageChange }: DashboardProps) {
                       </p>
                     </div>
                   </div>
-                  <Button variant="outline" size="sm">View</Button>
+                  <Button variant="outline" size="sm" onClick={() => onOpenDocument({ documentId: document.id })}>
+                    View
+                  </Button>
                 </div>
               ))}
             </div>
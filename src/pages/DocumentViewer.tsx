@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, ChevronDown, ChevronUp, Download, Search } from 'lucide-react'
+import { useData } from '@/hooks/use-data'
+import { canReadDocument, loadAccessScope } from '@/lib/access'
+import { documentFileUrl, viewerKind } from '@/lib/viewer/source'
+import { TextViewer } from '@/components/viewer/TextViewer'
+import { MarkdownViewer } from '@/components/viewer/MarkdownViewer'
+import { PdfViewer } from '@/components/viewer/PdfViewer'
+import { pageAtOffset } from '@/lib/extract/pages'
+import type { Document, DocumentLocation, Project } from '@/types'
+
+interface DocumentViewerProps {
+  location: DocumentLocation
+  onBack: () => void
+}
+
+export function DocumentViewer({ location, onBack }: DocumentViewerProps) {
+  const data = useData()
+  const [document, setDocument] = useState<Document | null>(null)
+  const [project, setProject] = useState<Project | null>(null)
+  const [fileUrl, setFileUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [findTerm, setFindTerm] = useState('')
+  const [matchCount, setMatchCount] = useState(0)
+  const [activeMatch, setActiveMatch] = useState(0)
+
+  const loadDocument = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const user = await data.auth.me()
+      const scope = await loadAccessScope(data, user.id)
+      const found = await data.documents.get(location.documentId)
+
+      if (!found || !canReadDocument(scope, found)) {
+        setError('This document does not exist or you do not have access to it.')
+        return
+      }
+      // Also covers the documents of a trashed project, which share its deletedAt
+      if (found.deletedAt) {
+        setError('This document is in the trash. Restore it to open it again.')
+        return
+      }
+
+      setDocument(found)
+      setProject(scope.projects.find(p => p.id === found.projectId) ?? null)
+      if (viewerKind(found) === 'pdf') {
+        setFileUrl(await documentFileUrl(data, found))
+      }
+    } catch (error) {
+      console.error('Failed to load document:', error)
+      setError('Failed to load document.')
+    } finally {
+      setLoading(false)
+    }
+  }, [data, location.documentId])
+
+  useEffect(() => {
+    loadDocument()
+  }, [loadDocument])
+
+  const handleMatchCount = useCallback((count: number) => {
+    setMatchCount(count)
+    setActiveMatch(0)
+  }, [])
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matchCount === 0) return
+    setActiveMatch((activeMatch + direction + matchCount) % matchCount)
+  }
+
+  const handleDownload = async () => {
+    if (!document) return
+    try {
+      window.open(await documentFileUrl(data, document), '_blank', 'noopener')
+    } catch (error) {
+      console.error('Failed to download document:', error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading document...</div>
+      </div>
+    )
+  }
+
+  if (error || !document) {
+    return (
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <div className="text-center py-12 text-gray-600">{error}</div>
+      </div>
+    )
+  }
+
+  const content = document.content ?? ''
+  const passage = location.startOffset !== undefined && location.endOffset !== undefined
+    ? { start: location.startOffset, end: location.endOffset }
+    : undefined
+  const passageText = passage ? content.slice(passage.start, passage.end) : undefined
+  const passagePage = passage ? pageAtOffset(content, passage.start) : undefined
+  const kind = viewerKind(document)
+  const findProps = { findTerm, activeMatch, onMatchCount: handleMatchCount }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <Button variant="outline" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <CardTitle className="truncate">{document.name}</CardTitle>
+              <CardDescription>
+                {project?.name} • {(document.fileSize / 1024).toFixed(1)} KB •{' '}
+                {new Date(document.createdAt).toLocaleDateString()}
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2 shrink-0">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Find in document..."
+                  value={findTerm}
+                  onChange={(e) => setFindTerm(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1)
+                  }}
+                  className="pl-10 w-64"
+                />
+              </div>
+              <span className="text-sm text-gray-500 w-16 text-center">
+                {findTerm.trim() ? (matchCount > 0 ? `${activeMatch + 1} of ${matchCount}` : 'No matches') : ''}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => stepMatch(-1)} disabled={matchCount === 0}>
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => stepMatch(1)} disabled={matchCount === 0}>
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {kind === 'pdf' && fileUrl ? (
+            <PdfViewer url={fileUrl} passageText={passageText} passagePage={passagePage} {...findProps} />
+          ) : kind === 'markdown' ? (
+            <MarkdownViewer source={content} passageText={passageText} {...findProps} />
+          ) : content ? (
+            <TextViewer text={content} passage={passage} {...findProps} />
+          ) : (
+            <div className="text-center py-12 text-gray-500">
+              No text could be extracted from this document.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,196 +6,162 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
-import { Upload, FileText, Search, Filter, Eye, Lock, Users, File } from 'lucide-react'
-import { blink } from '@/blink/client'
-import type { Document, Project, User } from '@/types'
+import { Upload, FileText, Search, Filter, Eye, Lock, Users, History, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useData } from '@/hooks/use-data'
+import { loadAccessScope, loadReadableDocuments } from '@/lib/access'
+import { assertCanOnDocument, can, canOnDocument, projectRole } from '@/lib/permissions'
+import { trashDocument } from '@/lib/trash'
+import { changeVisibility } from '@/lib/documents'
+import { isArchived } from '@/lib/projects'
+import type { PickedFile } from '@/lib/upload/files'
+import { isZipFile, unpackZip, type SkippedEntry } from '@/lib/upload/zip'
+import { isActive } from '@/hooks/use-upload-queue'
+import { useUploads } from '@/hooks/use-uploads'
+import { extractSnippet, matchesQuery, withEllipses } from '@/lib/search/snippets'
+import { HighlightedText } from '@/components/search/HighlightedText'
+import { DocumentVersionsDialog } from '@/components/documents/DocumentVersionsDialog'
+import { FileIcon } from '@/components/documents/FileIcon'
+import { UploadDropzone } from '@/components/documents/UploadDropzone'
+import { UploadQueue } from '@/components/documents/UploadQueue'
+import { SkippedEntries } from '@/components/documents/SkippedEntries'
+import type { Document, DocumentLocation, Project, ProjectMember, User } from '@/types'
 
-export function Documents() {
+// Kept in step with the formats in the registry and ZIP unpacking
+const SUPPORTED_UPLOADS =
+  'PDF, Word, RTF, Excel, PowerPoint, text, Markdown, CSV, web pages, emails, images (read with OCR) and ZIP archives'
+
+interface DocumentsProps {
+  onOpenDocument: (location: DocumentLocation) => void
+  // Show only this project's documents, as a section of its page
+  projectId?: string
+  onDocumentsChange?: (documents: Document[]) => void
+}
+
+export function Documents({ onOpenDocument, projectId, onDocumentsChange }: DocumentsProps) {
+  const data = useData()
+  const uploadQueue = useUploads()
   const [documents, setDocuments] = useState<Document[]>([])
   const [projects, setProjects] = useState<Project[]>([])
+  const [memberships, setMemberships] = useState<ProjectMember[]>([])
   const [loading, setLoading] = useState(true)
-  const [uploading, setUploading] = useState(false)
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false)
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [selectedProject, setSelectedProject] = useState<string>('')
+  const [selectedProject, setSelectedProject] = useState<string>(projectId ?? '')
   const [visibility, setVisibility] = useState<'private' | 'team'>('team')
   const [searchTerm, setSearchTerm] = useState('')
   const [filterVisibility, setFilterVisibility] = useState<'all' | 'private' | 'team'>('all')
   const [user, setUser] = useState<User | null>(null)
+  const [historyDocument, setHistoryDocument] = useState<Document | null>(null)
+  // Archive entries left out of the upload queue, with the reason
+  const [skippedEntries, setSkippedEntries] = useState<SkippedEntry[]>([])
 
-  const getFileIcon = (fileName: string, fileType: string) => {
-    const extension = fileName.toLowerCase().split('.').pop()
-    
-    if (extension === 'pdf' || fileType === 'application/pdf') {
-      return <File className="h-6 w-6 text-red-600" />
-    } else if (extension === 'doc' || extension === 'docx' || fileType.includes('word')) {
-      return <FileText className="h-6 w-6 text-blue-600" />
-    } else if (extension === 'txt' || fileType === 'text/plain') {
-      return <FileText className="h-6 w-6 text-gray-600" />
-    } else if (extension === 'md' || fileType === 'text/markdown') {
-      return <FileText className="h-6 w-6 text-green-600" />
-    } else {
-      return <FileText className="h-6 w-6 text-gray-600" />
-    }
-  }
-
-  useEffect(() => {
-    loadData()
-  }, [])
-
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     try {
-      const userData = await blink.auth.me()
+      const userData = await data.auth.me()
       setUser(userData)
 
-      // Load user's projects
-      const userProjects = await blink.db.projects.list({
-        where: { ownerId: userData.id },
-        orderBy: { name: 'asc' }
-      })
-      setProjects(userProjects)
+      // Load the projects the user belongs to
+      const scope = await loadAccessScope(data, userData.id)
+      setProjects(scope.projects)
+      setMemberships(scope.memberships)
 
-      // Load user's documents
-      const userDocuments = await blink.db.documents.list({
-        where: { uploadedBy: userData.id },
-        orderBy: { createdAt: 'desc' }
-      })
-      setDocuments(userDocuments)
+      // Load the user's own documents and team documents shared with them
+      setDocuments(await loadReadableDocuments(data, scope))
     } catch (error) {
       console.error('Failed to load data:', error)
     } finally {
       setLoading(false)
     }
-  }
-
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      console.log('File selected:', {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        lastModified: file.lastModified
-      })
-      setSelectedFile(file)
-    } else {
-      console.log('No file selected')
-      setSelectedFile(null)
-    }
-  }
+  }, [data])
 
-  const uploadDocument = async () => {
-    if (!selectedFile || !selectedProject || !user) {
-      console.error('Missing required fields for upload:', { 
-        hasFile: !!selectedFile, 
-        hasProject: !!selectedProject, 
-        hasUser: !!user 
-      })
-      return
-    }
+  useEffect(() => {
+    loadData()
+  }, [loadData])
 
-    // Add uploading state
-    setUploading(true)
+  useEffect(() => {
+    if (loading) return
+    onDocumentsChange?.(projectId ? documents.filter(doc => doc.projectId === projectId) : documents)
+  }, [documents, loading, projectId, onDocumentsChange])
 
-    try {
-      console.log('Starting document upload:', {
-        fileName: selectedFile.name,
-        fileSize: selectedFile.size,
-        fileType: selectedFile.type,
-        projectId: selectedProject
-      })
+  // Uploads run on after the page is left; show what they store while it is open
+  const { onUploaded } = uploadQueue
+  useEffect(() => onUploaded(document => {
+    setDocuments(current => [document, ...current.filter(doc => doc.id !== document.id)])
+  }), [onUploaded])
 
-      // Validate file before processing
-      if (!selectedFile) {
-        throw new Error('No file selected')
-      }
-      
-      if (selectedFile.size === 0) {
-        throw new Error('Selected file is empty')
-      }
-      
-      if (!selectedFile.name) {
-        throw new Error('File name is missing')
-      }
-      
-      // Check if it's a valid File object
-      if (!(selectedFile instanceof File)) {
-        throw new Error('Invalid file object')
-      }
+  // ZIP archives are unpacked here and their entries queued like any other file
+  const queueFiles = async (files: PickedFile[]) => {
+    if (!selectedProject || !user) return
+    const target = { projectId: selectedProject, visibility, uploadedBy: user.id }
 
-      // Validate file type and size
-      const allowedTypes = [
-        'application/pdf',
-        'application/msword',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'text/plain',
-        'text/markdown',
-        'application/rtf'
-      ]
-      
-      const fileExtension = selectedFile.name.toLowerCase().split('.').pop()
-      const allowedExtensions = ['pdf', 'doc', 'docx', 'txt', 'md', 'rtf']
-      
-      if (!allowedExtensions.includes(fileExtension || '')) {
-        throw new Error(`Unsupported file type. Please upload: ${allowedExtensions.join(', ').toUpperCase()} files`)
-      }
+    uploadQueue.enqueue(files.filter(({ file }) => !isZipFile(file)), target)
 
-      // Check file size (max 50MB)
-      const maxSize = 50 * 1024 * 1024 // 50MB
-      if (selectedFile.size > maxSize) {
-        throw new Error('File size too large. Maximum size is 50MB')
+    for (const { file } of files.filter(({ file }) => isZipFile(file))) {
+      const toastId = toast.loading(`Unpacking ${file.name}...`)
+      try {
+        const archive = await unpackZip(file)
+        uploadQueue.enqueue(archive.files, target)
+        setSkippedEntries(current => [...current, ...archive.skipped])
+        toast.success(
+          `Queued ${archive.files.length} files from ${file.name}` +
+            (archive.skipped.length > 0 ? `, skipped ${archive.skipped.length}` : ''),
+          { id: toastId }
+        )
+      } catch (error) {
+        console.error('Failed to unpack archive:', error)
+        const reason = error instanceof Error ? `: ${error.message}` : ''
+        toast.error(`Could not unpack ${file.name}${reason}`, { id: toastId })
       }
+    }
+  }
 
-      // Special handling for PDFs
-      if (fileExtension === 'pdf') {
-        console.log('Processing PDF file:', selectedFile.name)
-        // PDFs are supported by Blink's extractFromBlob function
-      }
+  const deleteDocument = async (document: Document) => {
+    if (!user) return
 
-      // Extract text content from the file
-      console.log('Extracting text from file...')
-      const text = await blink.data.extractFromBlob(selectedFile)
-      console.log('Text extraction successful, length:', text.length)
-      
-      // Upload the file to storage
-      console.log('Uploading file to storage...')
-      const { publicUrl } = await blink.storage.upload(
-        selectedFile,
-        `documents/${selectedProject}/${selectedFile.name}`,
-        { upsert: true }
-      )
-      console.log('File uploaded to storage:', publicUrl)
+    try {
+      const project = projects.find(p => p.id === document.projectId)
+      assertCanOnDocument(user.id, project ? projectRole(user.id, project, memberships) : null, 'deleteDocument', document)
+      await trashDocument(data, document, user.id)
+      setDocuments(documents.filter(doc => doc.id !== document.id))
+      toast.success(`Moved ${document.name} to the trash`)
+    } catch (error) {
+      console.error('Failed to delete document:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete document')
+    }
+  }
 
-      // Create document record
-      console.log('Creating document record...')
-      const document = await blink.db.documents.create({
-        name: selectedFile.name,
-        content: text,
-        fileType: selectedFile.type,
-        fileSize: selectedFile.size,
-        projectId: selectedProject,
-        uploadedBy: user.id,
-        visibility,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      })
-      console.log('Document record created:', document.id)
+  const toggleVisibility = async (document: Document) => {
+    if (!user) return
+    const next = document.visibility === 'private' ? 'team' : 'private'
 
-      setDocuments([document, ...documents])
-      setSelectedFile(null)
-      setSelectedProject('')
-      setIsUploadDialogOpen(false)
+    try {
+      const project = projects.find(p => p.id === document.projectId)
+      assertCanOnDocument(user.id, project ? projectRole(user.id, project, memberships) : null, 'changeVisibility', document)
+      const updated = await changeVisibility(data, document, next)
+      setDocuments(current => current.map(doc => (doc.id === updated.id ? updated : doc)))
+      toast.success(next === 'team' ? `${document.name} is now visible to the team` : `${document.name} is now private`)
     } catch (error) {
-      console.error('Failed to upload document:', error)
-      // Show user-friendly error message
-      alert(`Failed to upload document: ${error.message || 'Unknown error'}`)
-    } finally {
-      setUploading(false)
+      console.error('Failed to change visibility:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to change visibility')
     }
   }
 
-  const filteredDocuments = documents.filter(doc => {
-    const matchesSearch = doc.name.toLowerCase().includes(searchTerm.toLowerCase())
+  // Archived projects are kept out of the picker
+  const uploadableProjects = projects.filter(project =>
+    user && !isArchived(project) && can(projectRole(user.id, project, memberships), 'uploadDocument')
+  )
+
+  const historyProject = projects.find(p => p.id === historyDocument?.projectId)
+  const scopedProject = projects.find(p => p.id === projectId)
+  const archived = !!scopedProject && isArchived(scopedProject)
+
+  const activeUploads = uploadQueue.items.filter(item => isActive(item) || item.status === 'queued').length
+
+  const projectDocuments = projectId ? documents.filter(doc => doc.projectId === projectId) : documents
+
+  const filteredDocuments = projectDocuments.filter(doc => {
+    const matchesSearch = doc.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      matchesQuery(doc.content || '', searchTerm)
     const matchesVisibility = filterVisibility === 'all' || doc.visibility === filterVisibility
     return matchesSearch && matchesVisibility
   })
@@ -212,107 +178,91 @@ export function Documents() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-semibold text-black">Documents</h1>
-          <p className="text-gray-600">Upload and manage your documents across projects.</p>
+          {projectId ? (
+            <>
+              <h2 className="text-lg font-semibold text-black">Documents</h2>
+              <p className="text-gray-600">
+                {projectDocuments.length} {projectDocuments.length === 1 ? 'document' : 'documents'} in this project.
+              </p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-semibold text-black">Documents</h1>
+              <p className="text-gray-600">Upload and manage your documents across projects.</p>
+            </>
+          )}
         </div>
         
-        <Dialog open={isUploadDialogOpen} onOpenChange={(open) => {
-          setIsUploadDialogOpen(open)
-          if (!open) {
-            // Reset form when dialog closes
-            setSelectedFile(null)
-            setSelectedProject('')
-            setVisibility('team')
-            setUploading(false)
-          }
-        }}>
+        <Dialog open={isUploadDialogOpen} onOpenChange={setIsUploadDialogOpen}>
           <DialogTrigger asChild>
-            <Button>
+            <Button disabled={archived} title={archived ? 'Archived projects take no uploads' : undefined}>
               <Upload className="mr-2 h-4 w-4" />
-              Upload Document
+              {activeUploads > 0 ? `Uploading (${activeUploads} left)` : 'Upload Documents'}
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-w-xl">
             <DialogHeader>
-              <DialogTitle>Upload Document</DialogTitle>
+              <DialogTitle>Upload Documents</DialogTitle>
               <DialogDescription>
-                Upload a document to your project. Supports PDF, Word, and text files. The content will be extracted and processed for AI search.
+                Upload files or whole folders to your project. Supports {SUPPORTED_UPLOADS}. The content will be extracted and processed for AI search.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
-              <div>
-                <Label htmlFor="file">Select File</Label>
-                <Input
-                  id="file"
-                  type="file"
-                  onChange={handleFileSelect}
-                  accept=".pdf,.PDF,.doc,.docx,.txt,.md,.rtf"
-                />
-                {selectedFile && (
-                  <div className="mt-2 p-3 bg-gray-50 rounded-md">
-                    <div className="flex items-center space-x-2">
-                      <FileText className="h-4 w-4 text-gray-500" />
-                      <span className="text-sm font-medium text-gray-900">{selectedFile.name}</span>
-                    </div>
-                    <div className="mt-1 text-xs text-gray-500">
-                      {selectedFile.type || 'Unknown type'} • {(selectedFile.size / 1024).toFixed(1)} KB
-                      {selectedFile.name.toLowerCase().endsWith('.pdf') && (
-                        <span className="ml-2 text-blue-600">• PDF text extraction supported</span>
-                      )}
-                    </div>
-                  </div>
-                )}
-              </div>
-              
-              <div>
-                <Label htmlFor="project">Project</Label>
-                <Select value={selectedProject} onValueChange={setSelectedProject}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a project" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {projects.map((project) => (
-                      <SelectItem key={project.id} value={project.id}>
-                        {project.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="project">Project</Label>
+                  <Select value={selectedProject} onValueChange={setSelectedProject}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {uploadableProjects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div>
-                <Label htmlFor="visibility">Visibility</Label>
-                <Select value={visibility} onValueChange={(value: 'private' | 'team') => setVisibility(value)}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="private">Private (Only you)</SelectItem>
-                    <SelectItem value="team">Team (Project members)</SelectItem>
-                  </SelectContent>
-                </Select>
+                <div>
+                  <Label htmlFor="visibility">Visibility</Label>
+                  <Select value={visibility} onValueChange={(value: 'private' | 'team') => setVisibility(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="private">Private (Only you)</SelectItem>
+                      <SelectItem value="team">Team (Project members)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
-              <div className="flex justify-end space-x-2">
-                <Button 
-                  variant="outline" 
-                  onClick={() => setIsUploadDialogOpen(false)}
-                  disabled={uploading}
-                >
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={uploadDocument} 
-                  disabled={!selectedFile || !selectedProject || uploading}
-                >
-                  {uploading ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                      Uploading...
-                    </>
-                  ) : (
-                    'Upload Document'
-                  )}
+              <UploadDropzone
+                disabled={!selectedProject}
+                disabledHint="Select a project to start uploading"
+                onFiles={queueFiles}
+              />
+              <p className="text-xs text-gray-500">
+                ZIP archives are unpacked and their folders kept. Files with the same name as a document in the
+                same folder of the project are added as a new version of it.
+              </p>
+
+              <UploadQueue
+                items={uploadQueue.items}
+                onRetry={uploadQueue.retry}
+                onRetryFailed={uploadQueue.retryFailed}
+                onCancel={uploadQueue.cancel}
+                onRemove={uploadQueue.remove}
+                onClearFinished={uploadQueue.clearFinished}
+              />
+
+              <SkippedEntries entries={skippedEntries} onClear={() => setSkippedEntries([])} />
+
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => setIsUploadDialogOpen(false)}>
+                  {activeUploads > 0 ? 'Continue in Background' : 'Close'}
                 </Button>
               </div>
             </div>
@@ -325,7 +275,7 @@ export function Documents() {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <Input
-            placeholder="Search documents..."
+            placeholder="Search document names and content..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -349,15 +299,15 @@ export function Documents() {
           <CardContent className="flex flex-col items-center justify-center py-12">
             <FileText className="h-12 w-12 text-gray-400 mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
-              {documents.length === 0 ? 'No documents yet' : 'No documents match your search'}
+              {projectDocuments.length === 0 ? 'No documents yet' : 'No documents match your search'}
             </h3>
             <p className="text-gray-500 text-center mb-6">
-              {documents.length === 0 
-                ? 'Upload your first document to get started with AI-powered search. Supports PDF, Word, and text files.'
+              {projectDocuments.length === 0 
+                ? `Upload your first document to get started with AI-powered search. Supports ${SUPPORTED_UPLOADS}.`
                 : 'Try adjusting your search terms or filters.'
               }
             </p>
-            {documents.length === 0 && (
+            {projectDocuments.length === 0 && !archived && (
               <Button onClick={() => setIsUploadDialogOpen(true)}>
                 <Upload className="mr-2 h-4 w-4" />
                 Upload Your First Document
@@ -369,28 +319,42 @@ export function Documents() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredDocuments.map((document) => {
             const project = projects.find(p => p.id === document.projectId)
+            const role = user && project ? projectRole(user.id, project, memberships) : null
+            const snippet = searchTerm.trim() && matchesQuery(document.content || '', searchTerm)
+              ? extractSnippet(document.content, searchTerm, { windowSize: 160 })
+              : null
+            const excerpt = snippet && withEllipses(snippet)
             return (
               <Card key={document.id} className="hover:shadow-md transition-shadow">
                 <CardHeader>
                   <div className="flex items-start justify-between">
-                    {getFileIcon(document.name, document.fileType)}
-                    <Badge variant={document.visibility === 'private' ? 'secondary' : 'default'}>
-                      {document.visibility === 'private' ? (
-                        <>
-                          <Lock className="h-3 w-3 mr-1" />
-                          Private
-                        </>
-                      ) : (
-                        <>
-                          <Users className="h-3 w-3 mr-1" />
-                          Team
-                        </>
-                      )}
-                    </Badge>
+                    <FileIcon document={document} />
+                    <button
+                      type="button"
+                      className="rounded-md disabled:cursor-default focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      disabled={!user || !canOnDocument(user.id, role, 'changeVisibility', document)}
+                      title={document.visibility === 'private' ? 'Share with the project team' : 'Make private'}
+                      onClick={() => toggleVisibility(document)}
+                    >
+                      <Badge variant={document.visibility === 'private' ? 'secondary' : 'default'}>
+                        {document.visibility === 'private' ? (
+                          <>
+                            <Lock className="h-3 w-3 mr-1" />
+                            Private
+                          </>
+                        ) : (
+                          <>
+                            <Users className="h-3 w-3 mr-1" />
+                            Team
+                          </>
+                        )}
+                      </Badge>
+                    </button>
                   </div>
                   <CardTitle className="text-lg truncate">{document.name}</CardTitle>
                   <CardDescription>
-                    {project?.name} • {(document.fileSize / 1024).toFixed(1)} KB
+                    {project?.name}{document.folder && ` / ${document.folder}`} • {(document.fileSize / 1024).toFixed(1)} KB
+                    {user && document.uploadedBy !== user.id && ' • Shared by a teammate'}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -398,16 +362,60 @@ export function Documents() {
                     <span>{document.fileType}</span>
                     <span>{new Date(document.createdAt).toLocaleDateString()}</span>
                   </div>
-                  <Button variant="outline" size="sm" className="w-full">
-                    <Eye className="mr-2 h-4 w-4" />
-                    View Document
-                  </Button>
+                  {excerpt && (
+                    <div className="bg-gray-50 rounded p-3 mb-4">
+                      <p className="text-sm text-gray-700 italic">
+                        <HighlightedText text={excerpt.text} highlights={excerpt.highlights} />
+                      </p>
+                    </div>
+                  )}
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => onOpenDocument({ documentId: document.id })}
+                    >
+                      <Eye className="mr-2 h-4 w-4" />
+                      View Document
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Version history"
+                      onClick={() => setHistoryDocument(document)}
+                    >
+                      <History className="h-4 w-4" />
+                      {(document.version ?? 1) > 1 && <span className="ml-1">v{document.version}</span>}
+                    </Button>
+                    {user && canOnDocument(user.id, role, 'deleteDocument', document) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Move to trash"
+                        onClick={() => deleteDocument(document)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
                 </CardContent>
               </Card>
             )
           })}
         </div>
       )}
+
+      <DocumentVersionsDialog
+        document={historyDocument}
+        user={user}
+        role={historyProject && user ? projectRole(user.id, historyProject, memberships) : null}
+        onDocumentChange={(updated) => {
+          setDocuments(documents.map(doc => doc.id === updated.id ? updated : doc))
+          setHistoryDocument(updated)
+        }}
+        onOpenChange={(open) => !open && setHistoryDocument(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
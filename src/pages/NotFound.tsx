@@ -0,0 +1,21 @@
+import { Link, useLocation } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { FileQuestion } from 'lucide-react'
+import { paths } from '@/lib/routes'
+
+export function NotFound() {
+  const { pathname } = useLocation()
+
+  return (
+    <div className="text-center py-12">
+      <FileQuestion className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+      <h2 className="text-xl font-semibold mb-2">Page not found</h2>
+      <p className="text-gray-600 mb-6">
+        There is nothing at <span className="font-mono">{pathname}</span>. The link may be mistyped or out of date.
+      </p>
+      <Button asChild>
+        <Link to={paths.dashboard}>Go to Dashboard</Link>
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,316 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { ArrowLeft, Activity, FolderOpen, HardDrive, Pencil, Settings, Sparkles, Users } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useData } from '@/hooks/use-data'
+import { loadAccessScope } from '@/lib/access'
+import { listMembers, memberCount } from '@/lib/members'
+import { assertCan, can, projectRole } from '@/lib/permissions'
+import { isArchived, projectActivity, storageUsage, updateProject } from '@/lib/projects'
+import { listVersionsOf } from '@/lib/versions'
+import { paths, searchPath } from '@/lib/routes'
+import { formatBytes } from '@/lib/utils'
+import { Documents } from '@/pages/Documents'
+import { ProjectMembersDialog } from '@/components/projects/ProjectMembersDialog'
+import { ProjectSettingsDialog } from '@/components/projects/ProjectSettingsDialog'
+import type { Document, DocumentLocation, DocumentVersion, Project, ProjectMember, User } from '@/types'
+
+interface ProjectDetailProps {
+  projectId: string
+  onOpenDocument: (location: DocumentLocation) => void
+}
+
+// Members shown on the page; the rest are in the members dialog
+const MEMBER_PREVIEW = 5
+
+export function ProjectDetail({ projectId, onOpenDocument }: ProjectDetailProps) {
+  const navigate = useNavigate()
+  const data = useData()
+  const [project, setProject] = useState<Project | null>(null)
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  // Kept in sync by the documents section, which loads and changes them
+  const [documents, setDocuments] = useState<Document[]>([])
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [description, setDescription] = useState<string | null>(null)
+  const [managingMembers, setManagingMembers] = useState(false)
+  const [editingSettings, setEditingSettings] = useState(false)
+  const [question, setQuestion] = useState('')
+
+  const loadProject = useCallback(async () => {
+    try {
+      const userData = await data.auth.me()
+      setUser(userData)
+      const scope = await loadAccessScope(data, userData.id)
+      setProject(scope.projects.find(p => p.id === projectId) ?? null)
+      setMembers(await listMembers(data, [projectId]))
+    } catch (error) {
+      console.error('Failed to load project:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [data, projectId])
+
+  useEffect(() => {
+    loadProject()
+  }, [loadProject])
+
+  useEffect(() => {
+    let current = true
+    listVersionsOf(data, documents)
+      .then(loaded => current && setVersions(loaded))
+      .catch(error => console.error('Failed to load document versions:', error))
+    return () => {
+      current = false
+    }
+  }, [data, documents])
+
+  const role = user && project ? projectRole(user.id, project, members) : null
+
+  const saveDescription = async () => {
+    if (!project || description === null) return
+
+    try {
+      assertCan(role, 'renameProject')
+      setProject(await updateProject(data, project, { description: description.trim() }))
+      setDescription(null)
+    } catch (error) {
+      console.error('Failed to update project:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update project')
+    }
+  }
+
+  const askAI = () => {
+    navigate(searchPath({ query: question.trim(), projectId }))
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading project...</div>
+      </div>
+    )
+  }
+
+  if (!project) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 mb-6">This project does not exist or you are not a member of it.</p>
+        <Button variant="outline" asChild>
+          <Link to={paths.projects}>Back to Projects</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const usage = storageUsage(versions)
+  const activity = projectActivity(project, documents, versions, members)
+  const projectMembers = members.filter(member => member.projectId === project.id)
+  const count = memberCount(project, members)
+
+  const personName = (userId: string) => {
+    if (userId === user?.id) return 'You'
+    return projectMembers.find(member => member.userId === userId)?.email ?? 'A former member'
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild>
+        <Link to={paths.projects}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Projects
+        </Link>
+      </Button>
+
+      <div className="flex items-start justify-between gap-6">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-x-3">
+            <FolderOpen className="h-6 w-6 text-gray-600" />
+            <h1 className="text-2xl font-semibold text-black truncate">{project.name}</h1>
+            {isArchived(project) && <Badge variant="secondary">Archived</Badge>}
+          </div>
+          {description === null ? (
+            <div className="mt-1 flex items-center space-x-2">
+              <p className="text-gray-600">{project.description || 'No description'}</p>
+              {can(role, 'renameProject') && (
+                <Button variant="ghost" size="sm" title="Edit description" onClick={() => setDescription(project.description ?? '')}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="mt-2 space-y-2 max-w-xl">
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Describe your project"
+                autoFocus
+              />
+              <div className="flex space-x-2">
+                <Button size="sm" onClick={saveDescription}>Save</Button>
+                <Button size="sm" variant="outline" onClick={() => setDescription(null)}>Cancel</Button>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setManagingMembers(true)}>
+            <Users className="mr-2 h-4 w-4" />
+            {count} {count === 1 ? 'member' : 'members'}
+          </Button>
+          {can(role, 'renameProject') && (
+            <Button variant="outline" title="Project settings" onClick={() => setEditingSettings(true)}>
+              <Settings className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Project-scoped AI search */}
+      <Card>
+        <CardContent className="pt-6">
+          <form
+            className="flex space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              askAI()
+            }}
+          >
+            <Input
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder={`Ask a question about the documents in ${project.name}...`}
+            />
+            <Button type="submit">
+              <Sparkles className="mr-2 h-4 w-4" />
+              Ask AI
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <HardDrive className="mr-2 h-5 w-5" />
+              Storage
+            </CardTitle>
+            <CardDescription>
+              {formatBytes(usage.bytes)} in {usage.files} {usage.files === 1 ? 'file' : 'files'}, including earlier versions
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {usage.byFormat.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing stored yet.</p>
+            ) : (
+              usage.byFormat.map(({ label, bytes }) => (
+                <div key={label} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-700">{label}</span>
+                    <span className="text-gray-500">{formatBytes(bytes)}</span>
+                  </div>
+                  <Progress value={usage.bytes > 0 ? (bytes / usage.bytes) * 100 : 0} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Users className="mr-2 h-5 w-5" />
+              Members
+            </CardTitle>
+            <CardDescription>People who can see this project's team documents</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {projectMembers.slice(0, MEMBER_PREVIEW).map(member => (
+              <div key={member.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-900 truncate">
+                  {member.email || member.userId}
+                  {member.userId === user?.id && <span className="text-gray-500"> (you)</span>}
+                </span>
+                <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setManagingMembers(true)}>
+              {can(role, 'manageMembers') ? 'Manage Members' : 'View All Members'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Activity className="mr-2 h-5 w-5" />
+              Recent Activity
+            </CardTitle>
+            <CardDescription>Uploads, new versions and people joining</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-3">
+              {activity.map(item => {
+                const document = documents.find(doc => doc.id === item.documentId)
+                return (
+                  <li key={item.id} className="text-sm">
+                    <p className="text-gray-900">
+                      {personName(item.userId)} {item.action}
+                      {document && (
+                        <>
+                          {' '}
+                          <button
+                            className="font-medium hover:underline"
+                            onClick={() => onOpenDocument({ documentId: document.id })}
+                          >
+                            {document.name}
+                          </button>
+                        </>
+                      )}
+                    </p>
+                    <p className="text-gray-500">{new Date(item.at).toLocaleString()}</p>
+                  </li>
+                )
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Remounted when archiving changes whether it takes uploads */}
+      <Documents
+        key={isArchived(project) ? 'archived' : 'active'}
+        projectId={project.id}
+        onOpenDocument={onOpenDocument}
+        onDocumentsChange={setDocuments}
+      />
+
+      <ProjectMembersDialog
+        project={managingMembers ? project : null}
+        user={user}
+        role={role}
+        members={members}
+        onMembersChange={setMembers}
+        onOpenChange={setManagingMembers}
+      />
+
+      <ProjectSettingsDialog
+        project={editingSettings ? project : null}
+        user={user}
+        role={role}
+        members={members}
+        onProjectChange={setProject}
+        onMembersChange={setMembers}
+        onOpenChange={setEditingSettings}
+      />
+    </div>
+  )
+}
@@ -1,55 +1,91 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
-import { Plus, FolderOpen, Users, Settings } from 'lucide-react'
-import { blink } from '@/blink/client'
-import type { Project, User } from '@/types'
+import { Badge } from '@/components/ui/badge'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Plus, FolderOpen, Users, Settings, Mail, Trash2, Archive } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useData } from '@/hooks/use-data'
+import { loadAccessScope } from '@/lib/access'
+import {
+  acceptInvitation,
+  addOwnerMembership,
+  declineInvitation,
+  listMembers,
+  listPendingInvitations,
+  memberCount
+} from '@/lib/members'
+import { assertCan, can, projectRole } from '@/lib/permissions'
+import { trashProject } from '@/lib/trash'
+import { isArchived } from '@/lib/projects'
+import { projectPath } from '@/lib/routes'
+import { ProjectMembersDialog } from '@/components/projects/ProjectMembersDialog'
+import { ProjectSettingsDialog } from '@/components/projects/ProjectSettingsDialog'
+import type { Project, ProjectInvitation, ProjectMember, User } from '@/types'
 
 export function Projects() {
+  const navigate = useNavigate()
+  const data = useData()
   const [projects, setProjects] = useState<Project[]>([])
   const [loading, setLoading] = useState(true)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [newProject, setNewProject] = useState({ name: '', description: '' })
   const [user, setUser] = useState<User | null>(null)
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([])
+  const [managingProject, setManagingProject] = useState<Project | null>(null)
+  const [deletingProject, setDeletingProject] = useState<Project | null>(null)
+  const [settingsProject, setSettingsProject] = useState<Project | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
 
-  useEffect(() => {
-    loadProjects()
-    loadUser()
-  }, [])
-
-  const loadUser = async () => {
+  const loadProjects = useCallback(async () => {
     try {
-      const userData = await blink.auth.me()
-      setUser(userData)
+      const user = await data.auth.me()
+      // Projects the user owns or has been added to as a member
+      const { projects: userProjects } = await loadAccessScope(data, user.id)
+      setProjects([...userProjects].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)))
+      setMembers(await listMembers(data, userProjects.map(project => project.id)))
+      setInvitations(await listPendingInvitations(data, user.email))
     } catch (error) {
-      console.error('Failed to load user:', error)
+      console.error('Failed to load projects:', error)
+    } finally {
+      setLoading(false)
     }
-  }
+  }, [data])
 
-  const loadProjects = async () => {
+  const loadUser = useCallback(async () => {
     try {
-      const user = await blink.auth.me()
-      const userProjects = await blink.db.projects.list({
-        where: { ownerId: user.id },
-        orderBy: { updatedAt: 'desc' }
-      })
-      setProjects(userProjects)
+      const userData = await data.auth.me()
+      setUser(userData)
     } catch (error) {
-      console.error('Failed to load projects:', error)
-    } finally {
-      setLoading(false)
+      console.error('Failed to load user:', error)
     }
-  }
+  }, [data])
+
+  useEffect(() => {
+    loadProjects()
+    loadUser()
+  }, [loadProjects, loadUser])
 
   const createProject = async () => {
     if (!newProject.name.trim() || !user) return
 
     try {
-      const project = await blink.db.projects.create({
+      const project = await data.projects.create({
         name: newProject.name,
         description: newProject.description,
         ownerId: user.id,
@@ -57,7 +93,10 @@ export function Projects() {
         updatedAt: new Date().toISOString()
       })
 
+      const owner = await addOwnerMembership(data, project, user)
+
       setProjects([project, ...projects])
+      setMembers([...members, owner])
       setNewProject({ name: '', description: '' })
       setIsCreateDialogOpen(false)
     } catch (error) {
@@ -65,6 +104,48 @@ export function Projects() {
     }
   }
 
+  const respondToInvitation = async (invitation: ProjectInvitation, accept: boolean) => {
+    if (!user) return
+
+    try {
+      if (accept) {
+        await acceptInvitation(data, invitation, user)
+        toast.success(`You joined ${invitation.projectName}`)
+        await loadProjects()
+      } else {
+        await declineInvitation(data, invitation)
+      }
+      setInvitations(invitations.filter(i => i.id !== invitation.id))
+    } catch (error) {
+      console.error('Failed to respond to invitation:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to respond to invitation')
+    }
+  }
+
+  const deleteProject = async (project: Project) => {
+    if (!user) return
+
+    try {
+      assertCan(projectRole(user.id, project, members), 'deleteProject')
+      await trashProject(data, project, user.id)
+      setProjects(projects.filter(p => p.id !== project.id))
+      toast.success(`Moved ${project.name} to the trash`)
+    } catch (error) {
+      console.error('Failed to delete project:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete project')
+    } finally {
+      setDeletingProject(null)
+    }
+  }
+
+  const replaceProject = (project: Project) => {
+    setProjects(projects.map(p => (p.id === project.id ? project : p)))
+    setSettingsProject(current => (current?.id === project.id ? project : current))
+  }
+
+  const archivedCount = projects.filter(isArchived).length
+  const visibleProjects = showArchived ? projects : projects.filter(project => !isArchived(project))
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -81,103 +162,211 @@ export function Projects() {
           <p className="text-gray-600">Organize your documents into collaborative projects.</p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              New Project
+        <div className="flex items-center space-x-2">
+          {archivedCount > 0 && (
+            <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+              <Archive className="mr-2 h-4 w-4" />
+              {showArchived ? 'Hide Archived' : `Show Archived (${archivedCount})`}
             </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Create New Project</DialogTitle>
-              <DialogDescription>
-                Create a new project to organize and share documents with your team.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="name">Project Name</Label>
-                <Input
-                  id="name"
-                  value={newProject.name}
-                  onChange={(e) => setNewProject({ ...newProject, name: e.target.value })}
-                  placeholder="Enter project name"
-                />
-              </div>
-              <div>
-                <Label htmlFor="description">Description (Optional)</Label>
-                <Textarea
-                  id="description"
-                  value={newProject.description}
-                  onChange={(e) => setNewProject({ ...newProject, description: e.target.value })}
-                  placeholder="Describe your project"
-                />
-              </div>
-              <div className="flex justify-end space-x-2">
-                <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={createProject} disabled={!newProject.name.trim()}>
-                  Create Project
-                </Button>
+          )}
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Project
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create New Project</DialogTitle>
+                <DialogDescription>
+                  Create a new project to organize and share documents with your team.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="name">Project Name</Label>
+                  <Input
+                    id="name"
+                    value={newProject.name}
+                    onChange={(e) => setNewProject({ ...newProject, name: e.target.value })}
+                    placeholder="Enter project name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="description">Description (Optional)</Label>
+                  <Textarea
+                    id="description"
+                    value={newProject.description}
+                    onChange={(e) => setNewProject({ ...newProject, description: e.target.value })}
+                    placeholder="Describe your project"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={createProject} disabled={!newProject.name.trim()}>
+                    Create Project
+                  </Button>
+                </div>
               </div>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      {projects.length === 0 ? (
+      {/* Invitations */}
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Mail className="mr-2 h-5 w-5" />
+              Invitations
+            </CardTitle>
+            <CardDescription>You have been invited to join these projects.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {invitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div>
+                  <h4 className="font-medium text-black">{invitation.projectName}</h4>
+                  <p className="text-sm text-gray-600 capitalize">
+                    {invitation.role} • invited {new Date(invitation.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => respondToInvitation(invitation, false)}>
+                    Decline
+                  </Button>
+                  <Button size="sm" onClick={() => respondToInvitation(invitation, true)}>
+                    Accept
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {visibleProjects.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <FolderOpen className="h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No projects yet</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {archivedCount > 0 ? 'All your projects are archived' : 'No projects yet'}
+            </h3>
             <p className="text-gray-500 text-center mb-6">
-              Create your first project to start organizing and sharing documents with your team.
+              {archivedCount > 0
+                ? 'Show archived projects to open them, or create a new one.'
+                : 'Create your first project to start organizing and sharing documents with your team.'}
             </p>
             <Button onClick={() => setIsCreateDialogOpen(true)}>
               <Plus className="mr-2 h-4 w-4" />
-              Create Your First Project
+              {archivedCount > 0 ? 'New Project' : 'Create Your First Project'}
             </Button>
           </CardContent>
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {projects.map((project) => (
-            <Card key={project.id} className="hover:shadow-md transition-shadow cursor-pointer">
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <FolderOpen className="h-6 w-6 text-gray-600" />
-                  <Button variant="ghost" size="sm">
-                    <Settings className="h-4 w-4" />
-                  </Button>
-                </div>
-                <CardTitle className="text-lg">{project.name}</CardTitle>
-                <CardDescription>{project.description || 'No description'}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between text-sm text-gray-500">
-                  <div className="flex items-center">
-                    <Users className="h-4 w-4 mr-1" />
-                    <span>1 member</span>
+          {visibleProjects.map((project) => {
+            const count = memberCount(project, members)
+            const role = user ? projectRole(user.id, project, members) : null
+            return (
+              <Card
+                key={project.id}
+                className="hover:shadow-md transition-shadow cursor-pointer"
+                onClick={() => navigate(projectPath(project.id))}
+              >
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <FolderOpen className="h-6 w-6 text-gray-600" />
+                    <div className="flex items-center space-x-2">
+                      {isArchived(project) && <Badge variant="secondary">Archived</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Project settings"
+                        disabled={!can(role, 'renameProject')}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setSettingsProject(project)
+                        }}
+                      >
+                        <Settings className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
-                  <span>
-                    {new Date(project.updatedAt).toLocaleDateString()}
-                  </span>
-                </div>
-                <div className="mt-4 flex space-x-2">
-                  <Button variant="outline" size="sm" className="flex-1">
-                    View Documents
-                  </Button>
-                  <Button variant="outline" size="sm">
-                    <Users className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                  <CardTitle className="text-lg">{project.name}</CardTitle>
+                  <CardDescription>{project.description || 'No description'}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center justify-between text-sm text-gray-500">
+                    <div className="flex items-center">
+                      <Users className="h-4 w-4 mr-1" />
+                      <span>{count} {count === 1 ? 'member' : 'members'}</span>
+                    </div>
+                    <span>
+                      {new Date(project.updatedAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {/* Actions handle their own clicks instead of opening the project */}
+                  <div className="mt-4 flex space-x-2" onClick={(e) => e.stopPropagation()}>
+                    <Button variant="outline" size="sm" className="flex-1" asChild>
+                      <Link to={projectPath(project.id)}>View Documents</Link>
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setManagingProject(project)}>
+                      <Users className="h-4 w-4" />
+                    </Button>
+                    {can(role, 'deleteProject') && (
+                      <Button variant="outline" size="sm" title="Delete project" onClick={() => setDeletingProject(project)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
         </div>
       )}
+
+      <ProjectMembersDialog
+        project={managingProject}
+        user={user}
+        role={user && managingProject ? projectRole(user.id, managingProject, members) : null}
+        members={members}
+        onMembersChange={setMembers}
+        onOpenChange={(open) => !open && setManagingProject(null)}
+      />
+
+      <ProjectSettingsDialog
+        project={settingsProject}
+        user={user}
+        role={user && settingsProject ? projectRole(user.id, settingsProject, members) : null}
+        members={members}
+        onProjectChange={replaceProject}
+        onMembersChange={setMembers}
+        onOpenChange={(open) => !open && setSettingsProject(null)}
+      />
+
+      <AlertDialog open={deletingProject !== null} onOpenChange={(open) => !open && setDeletingProject(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingProject?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project and all of its documents will be moved to the trash. You can restore them from
+              the trash until they are purged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingProject && deleteProject(deletingProject)}>
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,283 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { FileText, FolderOpen, RotateCcw, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useData } from '@/hooks/use-data'
+import {
+  RETENTION_OPTIONS,
+  listTrash,
+  loadRetentionDays,
+  purgeDate,
+  purgeDocument,
+  purgeProject,
+  restoreDocument,
+  restoreProject,
+  saveRetentionDays,
+  type Trash as TrashContents
+} from '@/lib/trash'
+import type { Document, Project, User } from '@/types'
+
+// One item in the trash, or the whole trash when emptying it
+type TrashTarget =
+  | { kind: 'project'; project: Project }
+  | { kind: 'document'; document: Document }
+  | { kind: 'all' }
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export function Trash() {
+  const data = useData()
+  const [trash, setTrash] = useState<TrashContents>({ projects: [], documents: [] })
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [pendingPurge, setPendingPurge] = useState<TrashTarget | null>(null)
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const userData = await data.auth.me()
+      setUser(userData)
+      setTrash(await listTrash(data, userData.id))
+      setRetentionDays(await loadRetentionDays(data, userData.id))
+    } catch (error) {
+      console.error('Failed to load trash:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [data])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const changeRetention = async (days: number) => {
+    if (!user) return
+    const previous = retentionDays
+    setRetentionDays(days)
+    try {
+      await saveRetentionDays(data, user.id, days)
+    } catch (error) {
+      console.error('Failed to save retention period:', error)
+      setRetentionDays(previous)
+      toast.error(errorMessage(error))
+    }
+  }
+
+  const restore = async (item: TrashTarget) => {
+    setWorking(true)
+    try {
+      if (item.kind === 'project') {
+        await restoreProject(data, item.project)
+        setTrash({ ...trash, projects: trash.projects.filter(p => p.id !== item.project.id) })
+        toast.success(`Restored ${item.project.name}`)
+      } else if (item.kind === 'document') {
+        await restoreDocument(data, item.document)
+        setTrash({ ...trash, documents: trash.documents.filter(doc => doc.id !== item.document.id) })
+        toast.success(`Restored ${item.document.name}`)
+      }
+    } catch (error) {
+      console.error('Failed to restore from trash:', error)
+      toast.error(errorMessage(error))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const purge = async (item: TrashTarget) => {
+    setWorking(true)
+    try {
+      if (item.kind === 'project') {
+        await purgeProject(data, item.project)
+        setTrash({ ...trash, projects: trash.projects.filter(p => p.id !== item.project.id) })
+      } else if (item.kind === 'document') {
+        await purgeDocument(data, item.document)
+        setTrash({ ...trash, documents: trash.documents.filter(doc => doc.id !== item.document.id) })
+      } else {
+        for (const project of trash.projects) await purgeProject(data, project)
+        for (const document of trash.documents) await purgeDocument(data, document)
+        setTrash({ projects: [], documents: [] })
+      }
+      toast.success('Permanently deleted')
+    } catch (error) {
+      console.error('Failed to purge from trash:', error)
+      toast.error(errorMessage(error))
+      await loadTrash()
+    } finally {
+      setWorking(false)
+      setPendingPurge(null)
+    }
+  }
+
+  const purgeNote = (deletedAt?: string | null) => {
+    if (!deletedAt) return ''
+    const date = retentionDays !== null ? purgeDate(deletedAt, retentionDays) : null
+    return date ? ` • Purged ${date.toLocaleDateString()}` : ''
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading trash...</div>
+      </div>
+    )
+  }
+
+  const isEmpty = trash.projects.length === 0 && trash.documents.length === 0
+
+  const itemActions = (item: TrashTarget) => (
+    <div className="flex space-x-2">
+      <Button variant="outline" size="sm" onClick={() => restore(item)} disabled={working}>
+        <RotateCcw className="mr-2 h-4 w-4" />
+        Restore
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => setPendingPurge(item)} disabled={working}>
+        <Trash2 className="mr-2 h-4 w-4" />
+        Delete Forever
+      </Button>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-black">Trash</h1>
+          <p className="text-gray-600">Restore deleted projects and documents, or delete them permanently.</p>
+        </div>
+        <Button variant="outline" onClick={() => setPendingPurge({ kind: 'all' })} disabled={isEmpty || working}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Empty Trash
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Label htmlFor="retention">Automatically delete items I trash after</Label>
+        <Select
+          value={retentionDays !== null ? String(retentionDays) : undefined}
+          onValueChange={(value) => changeRetention(Number(value))}
+        >
+          <SelectTrigger id="retention" className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RETENTION_OPTIONS.map(days => (
+              <SelectItem key={days} value={String(days)}>
+                {days === 0 ? 'Never' : `${days} days`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isEmpty ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Trash2 className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+            <p className="text-gray-500 text-center">Deleted projects and documents appear here.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {trash.projects.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Projects</CardTitle>
+                <CardDescription>Restoring a project also restores the documents deleted with it.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {trash.projects.map(project => (
+                  <div key={project.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <FolderOpen className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <h4 className="font-medium text-black">{project.name}</h4>
+                        <p className="text-sm text-gray-600">
+                          Deleted {project.deletedAt && new Date(project.deletedAt).toLocaleDateString()}
+                          {purgeNote(project.deletedAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {itemActions({ kind: 'project', project })}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {trash.documents.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Documents</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {trash.documents.map(document => (
+                  <div key={document.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <FileText className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <h4 className="font-medium text-black">{document.name}</h4>
+                        <p className="text-sm text-gray-600">
+                          {(document.fileSize / 1024).toFixed(1)} KB • Deleted{' '}
+                          {document.deletedAt && new Date(document.deletedAt).toLocaleDateString()}
+                          {purgeNote(document.deletedAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {itemActions({ kind: 'document', document })}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={pendingPurge !== null} onOpenChange={(open) => !open && !working && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingPurge?.kind === 'all' ? 'Empty the trash?' : 'Delete permanently?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge?.kind === 'project'
+                ? `${pendingPurge.project.name}, its documents, their files and its member list will be deleted.`
+                : pendingPurge?.kind === 'document'
+                  ? `${pendingPurge.document.name} and the files of all its versions will be deleted.`
+                  : 'Every project and document in the trash will be deleted along with their files.'}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={working}
+              onClick={(e) => {
+                e.preventDefault()
+                if (pendingPurge) purge(pendingPurge)
+              }}
+            >
+              {working ? 'Deleting...' : 'Delete Forever'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
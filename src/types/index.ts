@@ -10,6 +10,11 @@ export interface Project {
   name: string
   description?: string
   ownerId: string
+  // Set while the project is archived: read-only and left out of pickers
+  archivedAt?: string | null
+  // Set while the project is in the trash
+  deletedAt?: string | null
+  deletedBy?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -18,10 +23,23 @@ export interface ProjectMember {
   id: string
   projectId: string
   userId: string
+  email?: string
   role: 'owner' | 'admin' | 'member'
   joinedAt: string
 }
 
+export interface ProjectInvitation {
+  id: string
+  projectId: string
+  projectName: string
+  email: string
+  role: 'admin' | 'member'
+  invitedBy: string
+  status: 'pending' | 'accepted' | 'declined' | 'revoked'
+  createdAt: string
+  respondedAt?: string
+}
+
 export interface Document {
   id: string
   name: string
@@ -31,16 +49,121 @@ export interface Document {
   projectId: string
   uploadedBy: string
   visibility: 'private' | 'team'
+  storagePath?: string
+  fileUrl?: string
+  // Folder the file came from when uploaded as part of a folder or ZIP
+  // archive, e.g. `reports/2021`
+  folder?: string
+  // Number of the version the document currently shows; absent before
+  // versioning, which counts as version 1
+  version?: number
+  // Set while the document is in the trash. Documents trashed together with
+  // their project share the project's `deletedAt`.
+  deletedAt?: string | null
+  deletedBy?: string | null
   createdAt: string
   updatedAt: string
 }
 
+// One uploaded revision of a document. The document record mirrors the
+// current version's file and content.
+export interface DocumentVersion {
+  id: string
+  documentId: string
+  projectId: string
+  version: number
+  fileType: string
+  fileSize: number
+  content: string
+  storagePath: string
+  fileUrl?: string
+  uploadedBy: string
+  // Set when this version was created by restoring an earlier one
+  restoredFrom?: number
+  createdAt: string
+}
+
+// A document to open in the viewer, optionally scrolled to a passage
+export interface DocumentLocation {
+  documentId: string
+  startOffset?: number
+  endOffset?: number
+}
+
+export interface Passage {
+  id: string
+  documentId: string
+  projectId: string
+  uploadedBy: string
+  position: number
+  startOffset: number
+  endOffset: number
+  text: string
+  createdAt: string
+}
+
+export interface HighlightRange {
+  start: number
+  end: number
+}
+
+export interface Citation {
+  marker: number
+  passageId: string
+  documentId: string
+  documentName: string
+  relevantText: string
+  highlights: HighlightRange[]
+  startOffset: number
+  endOffset: number
+}
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; marker: number }
+
 export interface SearchResult {
   answer: string
+  segments: AnswerSegment[]
+  citations: Citation[]
+  // Set when the answer was cancelled before the model finished
+  partial?: boolean
   sources: {
     documentId: string
     documentName: string
     relevantText: string
+    highlights: HighlightRange[]
     confidence: number
   }[]
-}
\ No newline at end of file
+}
+export interface SearchThread {
+  id: string
+  userId: string
+  title: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SearchMessage {
+  id: string
+  threadId: string
+  userId: string
+  role: 'user' | 'assistant'
+  content: string
+  // Standalone query used for retrieval, rewritten from the thread history
+  searchQuery?: string
+  // JSON-encoded SearchResult, stored on assistant messages
+  result?: string
+  // JSON-encoded list of passage IDs retrieved for this turn
+  contextPassageIds?: string
+  createdAt: string
+}
+
+export interface UserSettings {
+  id: string
+  userId: string
+  // Trashed items are purged after this many days; 0 keeps them until
+  // emptied by hand
+  trashRetentionDays: number
+  updatedAt: string
+}
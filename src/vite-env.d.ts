@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // `local` keeps everything in the browser instead of using Blink
+  readonly VITE_DATA_BACKEND?: 'blink' | 'local'
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,6 +1,13 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import type { PreRenderedAsset } from 'rollup';
+
+// Tesseract looks up language data by file name, so it cannot be hashed
+const assetFileNames = (asset: PreRenderedAsset) =>
+  asset.names.some(name => name.endsWith('.traineddata.gz'))
+    ? 'assets/tesseract/[name][extname]'
+    : 'assets/[name]-[hash][extname]';
 
 export default defineConfig({
   plugins: [react()],
@@ -9,6 +16,18 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  build: {
+    rollupOptions: {
+      output: { assetFileNames },
+    },
+  },
+  // Extraction and OCR run in workers, which are bundled separately
+  worker: {
+    format: 'es',
+    rollupOptions: {
+      output: { assetFileNames },
+    },
+  },
   server: {
     port: 3000,
     strictPort: true,